@@ -176,10 +176,67 @@ async function benchmarkComparison() {
   }
 }
 
+// Update-heavy workload: every key is overwritten many times.
+// Same-size values are rewritten in place, values that change size are appended.
+function benchmarkUpdates() {
+  const KEYS = 100_000;
+  const ROUNDS = 20;
+  console.log(
+    `\n# Update-Heavy Workload: ${KEYS.toLocaleString()} Keys x ${ROUNDS} Overwrites\n`,
+  );
+  console.log(`| Type | Update Time | Compactions | Buffer Used |`);
+  console.log(`|---|---|---|---|`);
+
+  const scenarios: [string, () => any, (round: number, i: number) => any][] = [
+    ["Map", () => new Map(), (round, i) => i + round],
+    [
+      "RogueMap (Int32, in place)",
+      () => new RogueMap({ keyCodec: StringCodec, valueCodec: Int32Codec }),
+      (round, i) => i + round,
+    ],
+    [
+      "RogueMap (String, same size)",
+      () => new RogueMap({ keyCodec: StringCodec, valueCodec: StringCodec }),
+      (round, i) => `v${round % 10}-${i}`,
+    ],
+    [
+      "RogueMap (String, growing)",
+      () => new RogueMap({ keyCodec: StringCodec, valueCodec: StringCodec }),
+      (round, i) => `v${round}`.padEnd(round + 2, "x") + i,
+    ],
+  ];
+
+  for (const [name, create, valueFn] of scenarios) {
+    if (global.gc) global.gc();
+    const map = create();
+    let compactions = 0;
+    if (map instanceof RogueMap) {
+      const compact = map.compact.bind(map);
+      map.compact = () => {
+        compactions++;
+        compact();
+      };
+    }
+    for (let i = 0; i < KEYS; i++) map.set(`key${i}`, valueFn(0, i));
+
+    const start = performance.now();
+    for (let round = 1; round <= ROUNDS; round++) {
+      for (let i = 0; i < KEYS; i++) map.set(`key${i}`, valueFn(round, i));
+    }
+    const time = performance.now() - start;
+
+    const used =
+      map instanceof RogueMap ? formatBytes((map as any).writeOffset) : "-";
+    console.log(
+      `| ${name} | ${time.toFixed(0)}ms | ${map instanceof RogueMap ? compactions : "-"} | ${used} |`,
+    );
+  }
+}
+
 if (!global.gc) {
   console.error(
     "Run with node --expose-gc --import tsx benchmarks/benchmark_comparison.ts",
   );
 } else {
-  benchmarkComparison().catch(console.error);
+  benchmarkComparison().then(benchmarkUpdates).catch(console.error);
 }
@@ -347,6 +347,15 @@ export class PagedBuffer {
     return null;
   }
 
+  /**
+   * Calls `fn` with each page and the offset it starts at.
+   */
+  forEachPage(fn: (page: Buffer, start: number) => void): void {
+    for (let i = 0; i < this.pages.length; i++) {
+      fn(this.pages[i], i * PagedBuffer.PAGE_SIZE);
+    }
+  }
+
   // For reading buffers (decoding)
   readBuffer(offset: number, length: number): Buffer {
     if (this.singlePage) {
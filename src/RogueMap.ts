@@ -1,15 +1,50 @@
 import { Codec } from "./interfaces";
-import { AnyCodec } from "./codecs";
+import { AnyCodec, codecInfo, migrationSource, resolveCodec } from "./codecs";
 import { murmurHash3, numberHash } from "./utils";
+import { EvictionPolicy, EvictionTracker } from "./eviction";
+import { CachePolicy, HotCache, createCache } from "./cache";
 import { EventEmitter } from "events";
+import { Readable } from "stream";
 import {
   PersistenceOptions,
   CompactionOptions,
   PersistenceAdapter,
 } from "./persistence/interfaces";
 import { PersistenceManager } from "./persistence/manager";
+import {
+  encodeSetRecord,
+  encodeDeleteRecord,
+  encodeClearRecord,
+  encodeExpireRecord,
+  readWalRecords,
+  supportsWal,
+  WAL_OP_SET,
+  WAL_OP_DELETE,
+  WAL_OP_EXPIRE,
+} from "./persistence/wal";
 import { PagedBuffer } from "./PagedBuffer";
 import { Buffer } from "./internal/buffer";
+import {
+  SnapshotReader,
+  LoadedSnapshot,
+  writeSnapshot,
+  writeSnapshotPatch,
+  isValidSnapshot,
+  readStreamChunks,
+  SnapshotStream,
+  SnapshotSource,
+  SnapshotChecksums,
+  SnapshotMeta,
+  SNAPSHOT_BLOCK_SIZE,
+  INCREMENTAL_BLOCK_SIZE,
+} from "./format";
+import {
+  RogueMapCorruptionError,
+  RogueMapSyncUnsupportedError,
+} from "./errors";
+
+export type { EvictionPolicy } from "./eviction";
+export type { CachePolicy } from "./cache";
 
 /**
  * Configuration options for creating a RogueMap instance.
@@ -53,12 +88,70 @@ export interface RogueMapOptions<K, V> {
    * Set to 0 to disable. Defaults to 0.
    */
   cacheSize?: number; // LRU Cache size (0 = disabled)
+  /**
+   * Policy of the hot-value cache: 'lru' caches every read and write,
+   * 'tinylfu' (W-TinyLFU) only keeps values read often enough to beat what they replace.
+   * Defaults to 'lru'.
+   */
+  cachePolicy?: CachePolicy;
   /**
    * Default Time-To-Live (TTL) for entries in milliseconds.
    * If set, entries will expire after this duration.
    * Can be overridden per-entry in set().
    */
   ttl?: number;
+  /**
+   * Source of the current time in milliseconds for all TTL logic.
+   * Defaults to Date.now. See ManualClock for tests and simulations.
+   */
+  clock?: () => number;
+  /**
+   * If true, TTLs are idle timeouts: every successful get() or has()
+   * restarts the entry's TTL. Can be overridden per-entry in set().
+   * Defaults to false.
+   */
+  slidingTTL?: boolean;
+  /**
+   * Maximum number of entries. Once exceeded, each insert evicts an entry
+   * chosen by `evictionPolicy` and emits "evict".
+   */
+  maxEntries?: number;
+  /**
+   * Maximum size of the off-heap data buffer in bytes (the hash table is not counted).
+   * When full, deleted space is reclaimed first, then entries are evicted
+   * by `evictionPolicy` until about 10% of the buffer is free.
+   */
+  maxMemory?: number;
+  /**
+   * Which entries to evict when maxEntries or maxMemory is reached.
+   * Defaults to 'lru'.
+   */
+  evictionPolicy?: EvictionPolicy;
+  /**
+   * Number of entries sampled per eviction; the policy's best candidate among them is evicted.
+   * Higher is more accurate but slower. Defaults to 5.
+   */
+  evictionSamples?: number;
+  /**
+   * Background removal of expired entries. Without it, expired entries are
+   * only removed when accessed or during compaction.
+   */
+  sweep?: SweepOptions;
+}
+
+/**
+ * Configuration of the background TTL sweeper.
+ */
+export interface SweepOptions {
+  /**
+   * Time between sweeps in milliseconds. Defaults to 1000.
+   */
+  interval?: number;
+  /**
+   * Maximum time a single sweep may block the event loop, in milliseconds.
+   * The next sweep resumes where this one stopped. Defaults to 5.
+   */
+  budget?: number;
 }
 
 /**
@@ -70,12 +163,59 @@ export interface SetOptions {
    * Overrides the default TTL if set.
    */
   ttl?: number;
+  /**
+   * If true, every successful get() or has() restarts the TTL of this entry.
+   * Overrides the map's slidingTTL option if set.
+   */
+  slidingTTL?: boolean;
+}
+
+/**
+ * Options for incr() and decr() methods.
+ */
+export interface IncrOptions extends SetOptions {
+  /**
+   * Value of a missing key before the increment.
+   * Default: 0.
+   */
+  initial?: number | bigint;
+}
+
+/**
+ * Loads the value of a missing or stale key, see getOrLoad().
+ */
+export type Loader<K, V> = (key: K) => V | Promise<V>;
+
+/**
+ * Options for getOrLoad() method.
+ * Use the same options for every call on a key: the stale windows are not
+ * stored, they are derived from the entry's expiry.
+ */
+export interface LoadOptions {
+  /**
+   * Time in milliseconds a loaded value stays fresh.
+   * Defaults to the map's TTL.
+   */
+  ttl?: number;
+  /**
+   * Time in milliseconds after the value goes stale during which it is still
+   * returned while a refresh runs in the background.
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Time in milliseconds after the value goes stale during which it is
+   * returned if the refresh fails.
+   */
+  staleIfError?: number;
 }
 
 const DEFAULT_CAPACITY = 16384;
 const DEFAULT_MEMORY = 10 * 1024 * 1024; // 10MB
 const FLAG_ACTIVE = 1;
 const FLAG_DELETED = 2;
+const EVICTION_HEADROOM = 0.1; // Share of maxMemory freed when the buffer is full
+const INT64_MAX = 0x7fffffffffffffffn; // Largest BigInt64Codec value
+const DIRTY_BUCKET_SHIFT = Math.log2(INCREMENTAL_BLOCK_SIZE / 8); // Slots per dirty flag
 // 8 bytes for TTL (ExpireAt) in Entry Header
 // Layout: [Flag(1)] [Hash(4)] [ExpireAt(8)] [KeyLen(4)?] [ValLen(4)?] [Key] [Val]
 // ExpireAt = 0 means no expiration (or very old format, but we init with 0 for no expiry)
@@ -115,16 +255,47 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
   private keyCodec: Codec<K>;
   private valueCodec: Codec<V>;
+  private keyCodecSet: boolean; // False = picked from the snapshot metadata on load
+  private valueCodecSet: boolean;
   private hasher: (key: K) => number;
 
   private persistence?: PersistenceOptions;
   private compaction: CompactionOptions;
   private adapter?: PersistenceAdapter;
   private saveTimer?: NodeJS.Timeout | number;
-
-  private cache?: Map<K, V>;
+  private sweepTimer?: NodeJS.Timeout | number;
+  private sweepBudget = 0;
+  private sweepCursor = 0; // Next bucket to check
+  private saveQueue: Promise<void> = Promise.resolve();
+  private snapshots = 0; // Streaming snapshots currently reading the data region
+
+  // Incremental persistence state
+  private dirtyBuckets: Uint8Array | null = null; // One flag per bucket table block
+  private dirtyData: Set<number> | null = null; // Data blocks changed in place
+  private savedChecksums: SnapshotChecksums | null = null; // File on disk, null = full save needed
+  private layoutEpoch = 0; // Bumped whenever the file can no longer be patched
+
+  // Write-Ahead Log state
+  private walPath?: string;
+  private walPending: Buffer[] | null = null; // Records logged while a snapshot is in flight
+  private walQueue: Promise<void> = Promise.resolve();
+  private walSync = true; // Falls back to async appends if the adapter lacks sync support
+
+  private cache?: HotCache<K, V>;
   private cacheSize: number;
   private defaultTTL: number;
+  private slidingTTL: boolean;
+  private clock: () => number;
+  private slidingTTLs: Float64Array | null = null; // TTL per bucket of sliding entries (0 = fixed expiry)
+  private lastSlot = -1; // Bucket written by the latest put()
+  private missSlot = -1; // Free bucket for the key missed by the latest findIndex() (-1 = none)
+
+  private maxEntries: number; // 0 = unbounded
+  private maxMemory: number; // 0 = unbounded
+  private eviction?: EvictionTracker;
+
+  private loading = new Map<K, Promise<V>>(); // In-flight getOrLoad() loads
+  private migration: { codec: Codec<V>; from: number } | null = null; // Pending migrateValues()
 
   private tempKeyBuffer: Buffer = Buffer.allocUnsafe(1024); // Reusable buffer for key comparison
 
@@ -146,22 +317,46 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     this._hashes = new Int32Array(this.capacity);
     this._offsets = new Float64Array(this.capacity);
 
-    this.buffer = PagedBuffer.allocUnsafe(
-      options.initialMemory || DEFAULT_MEMORY,
-    );
+    this.maxEntries = options.maxEntries || 0;
+    this.maxMemory = options.maxMemory || 0;
+    if (this.maxEntries < 0 || this.maxMemory < 0) {
+      throw new Error("RogueMap: maxEntries and maxMemory must be positive");
+    }
+    if (this.maxEntries || this.maxMemory) {
+      this.eviction = new EvictionTracker(
+        options.evictionPolicy || "lru",
+        this.capacity,
+        options.evictionSamples || 5,
+      );
+    }
+
+    let memory = options.initialMemory || DEFAULT_MEMORY;
+    if (this.maxMemory) memory = Math.min(memory, this.maxMemory);
+    this.buffer = PagedBuffer.allocUnsafe(memory);
     this.rawBuffer = this.buffer.getSinglePage();
     this.writeOffset = 1; // Start at 1 because 0 in buckets means empty
 
     // Default to AnyCodec for maximum flexibility if no codec is provided
     this.keyCodec = options.keyCodec || (AnyCodec as unknown as Codec<K>);
     this.valueCodec = options.valueCodec || (AnyCodec as unknown as Codec<V>);
+    this.keyCodecSet = !!options.keyCodec;
+    this.valueCodecSet = !!options.valueCodec;
+    this.watchViews();
 
     this.cacheSize = options.cacheSize || 0;
     if (this.cacheSize > 0) {
-      this.cache = new Map();
+      this.cache = createCache<K, V>(
+        options.cachePolicy || "lru",
+        this.cacheSize,
+        (key) => this.hasher(key) | 0,
+        (key, value) => this.emit("evict", key, value),
+      );
     }
 
     this.defaultTTL = options.ttl || 0;
+    this.slidingTTL = !!options.slidingTTL;
+    // Looked up on each call, so Date.now can still be mocked after construction
+    this.clock = options.clock || (() => Date.now());
 
     if (options.hasher) {
       this.hasher = options.hasher;
@@ -185,19 +380,52 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     };
 
     if (this.persistence) {
-      this.adapter = PersistenceManager.getAdapter(this.persistence.type);
+      this.adapter = PersistenceManager.fromOptions(this.persistence);
+      if (this.persistence.wal) {
+        if (!supportsWal(this.adapter)) {
+          throw new Error(
+            "RogueMap: wal requires an adapter with append(), appendSync(), remove() and removeSync()",
+          );
+        }
+        this.walPath = this.persistence.path + ".wal";
+      }
+      if (this.persistence.incremental && this.adapter.patch) {
+        this.dirtyBuckets = new Uint8Array(0);
+        this.dirtyData = new Set();
+        this.invalidateSnapshot();
+      }
 
       // Try synchronous load if configured (Node.js default)
       if (this.persistence.syncLoad !== false) {
         try {
-          const savedData = this.adapter.loadSync(this.persistence.path);
-          if (savedData) {
-            this.loadFromBuffer(savedData);
+          if (this.adapter.loadChunksSync) {
+            const chunks = this.adapter.loadChunksSync(
+              this.persistence.path,
+              isValidSnapshot,
+            );
+            if (chunks) {
+              this.loadFromChunks(chunks);
+            }
+          } else {
+            const savedData = this.adapter.loadSync(
+              this.persistence.path,
+              isValidSnapshot,
+            );
+            if (savedData) {
+              this.loadFromBuffer(savedData);
+            }
           }
-        } catch (e: any) {
-          // Ignore sync load errors if it's because method not implemented (browser)
-          // But if syncLoad is explicitly true, we might want to throw?
-          // For 'auto', we try and ignore.
+          if (this.walPath) {
+            const log = this.adapter.loadSync(this.walPath);
+            if (log) {
+              this.replayWal(log);
+            }
+          }
+          this.migrateOnLoad();
+        } catch (e) {
+          // Adapters without sync support (e.g. IndexedDB) load via init().
+          // A damaged file or wrong key must not silently start empty.
+          if (!(e instanceof RogueMapSyncUnsupportedError)) throw e;
         }
       }
 
@@ -213,6 +441,17 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         }
       }
     }
+
+    if (options.sweep) {
+      this.sweepBudget = options.sweep.budget || 5;
+      this.sweepTimer = setInterval(
+        () => this.sweep(),
+        options.sweep.interval || 1000,
+      );
+      if (typeof (this.sweepTimer as any).unref === "function") {
+        (this.sweepTimer as any).unref();
+      }
+    }
   }
 
   /**
@@ -223,116 +462,450 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
   async init(): Promise<void> {
     if (!this.persistence || !this.adapter) return;
 
-    const savedData = await this.adapter.load(this.persistence.path);
-    if (savedData) {
-      this.loadFromBuffer(savedData);
+    let loaded = false;
+    const stream = this.adapter.loadStream
+      ? this.adapter.loadStream(this.persistence.path)
+      : null;
+    if (stream) {
+      try {
+        await this.loadFromStream(stream);
+        loaded = true;
+      } catch (e) {
+        // Damaged file: fall back to the validated (backup-aware) load below
+        if (!(e instanceof RogueMapCorruptionError)) throw e;
+      }
+    }
+    if (!loaded) {
+      const savedData = await this.adapter.load(
+        this.persistence.path,
+        isValidSnapshot,
+      );
+      if (savedData) {
+        this.loadFromBuffer(savedData);
+      }
     }
+    if (this.walPath) {
+      const log = await this.adapter.load(this.walPath);
+      if (log) {
+        this.replayWal(log);
+      }
+    }
+    await this.migrateValues();
   }
 
   /**
    * Manually save the map state to the configured persistence storage.
    * Note: Auto-save can also be configured via options.
+   * Saves are queued, so concurrent calls never interleave.
+   */
+  save(): Promise<void> {
+    const run = this.saveQueue.then(() => this.saveSnapshot());
+    this.saveQueue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Stops the auto-save and sweep timers and waits for pending saves and WAL writes.
    */
-  async save(): Promise<void> {
+  async close(): Promise<void> {
+    if (this.saveTimer) {
+      clearInterval(this.saveTimer as any);
+      this.saveTimer = undefined;
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer as any);
+      this.sweepTimer = undefined;
+    }
+    await this.saveQueue;
+    await this.walQueue;
+  }
+
+  private async saveSnapshot(): Promise<void> {
     if (!this.persistence || !this.adapter) return;
-    const data = this.serialize();
-    await this.adapter.save(data, this.persistence.path);
+
+    // Collect WAL records written while the snapshot is in flight,
+    // they must survive the truncation below.
+    if (this.walPath) this.walPending = [];
+
+    try {
+      if (this.dirtyBuckets && this.savedChecksums) {
+        await this.savePatch();
+      } else if (this.adapter.saveChunks) {
+        // Stream the snapshot instead of materializing it in one buffer
+        const epoch = this.layoutEpoch;
+        let checksums: SnapshotChecksums | null = null;
+        if (this.dirtyBuckets) this.dirtyBuckets.fill(0);
+        if (this.dirtyData) this.dirtyData.clear();
+        await this.adapter.saveChunks(
+          this.openSnapshot(
+            this.dirtyBuckets ? INCREMENTAL_BLOCK_SIZE : SNAPSHOT_BLOCK_SIZE,
+            (c) => (checksums = c),
+          ),
+          this.persistence.path,
+        );
+        if (this.dirtyBuckets && epoch === this.layoutEpoch) {
+          this.savedChecksums = checksums;
+        }
+      } else {
+        await this.adapter.save(this.serialize(), this.persistence.path);
+      }
+    } catch (e) {
+      this.walPending = null;
+      throw e;
+    }
+
+    if (this.walPath) {
+      const adapter = this.adapter;
+      const walPath = this.walPath;
+      const tail = Buffer.concat(this.walPending || []);
+      this.walPending = null;
+
+      this.walWrite(
+        () => {
+          adapter.removeSync!(walPath);
+          if (tail.length > 0) adapter.appendSync!(tail, walPath);
+        },
+        async () => {
+          await adapter.remove!(walPath);
+          if (tail.length > 0) await adapter.append!(tail, walPath);
+        },
+      );
+      await this.walQueue;
+    }
   }
 
-  private loadFromBuffer(data: Buffer) {
-    // This logic is similar to deserialize but reuses the current instance
-    // We assume data format is valid
-    let cursor = 0;
+  // Writes only the blocks changed since the last save into the file
+  private async savePatch(): Promise<void> {
+    const dirty: number[] = [];
+    const flags = this.dirtyBuckets!;
+    for (let i = 0; i < flags.length; i++) {
+      if (flags[i]) dirty.push(i);
+    }
+    const epoch = this.layoutEpoch;
+    const patch = writeSnapshotPatch(
+      this.snapshotSource(this._offsets),
+      this.savedChecksums!,
+      dirty,
+      this.dirtyData!,
+    );
+    flags.fill(0);
+    this.dirtyData!.clear();
+
+    try {
+      await this.adapter!.patch!(
+        patch.ranges,
+        patch.length,
+        this.persistence!.path,
+      );
+    } catch (e) {
+      // The file state is unknown, start over with a full snapshot
+      this.invalidateSnapshot();
+      throw e;
+    }
+    if (epoch === this.layoutEpoch) {
+      this.savedChecksums = patch.checksums;
+    }
+  }
 
-    // Magic
-    const magic = data.toString("utf8", cursor, cursor + 5);
-    cursor += 5;
-    if (magic !== "ROGUE") throw new Error("Invalid RogueMap format");
+  // The entry's flag byte changes along with the bucket
+  private markDeleted(index: number, offset: number): void {
+    this.markBucket(index);
+    this.markData(offset, 1);
+  }
 
-    // Version
-    const version = data.readUInt8(cursor);
-    cursor += 1;
-    if (version !== 2)
-      throw new Error(
-        `Unsupported RogueMap version: ${version}. Only version 2 is supported.`,
+  private markBucket(index: number): void {
+    if (this.dirtyBuckets) this.dirtyBuckets[index >>> DIRTY_BUCKET_SHIFT] = 1;
+  }
+
+  // Data below the saved write offset changed in place (appends are always saved)
+  private markData(offset: number, length: number): void {
+    if (!this.dirtyData) return;
+    const last = Math.floor((offset + length - 1) / INCREMENTAL_BLOCK_SIZE);
+    for (let b = Math.floor(offset / INCREMENTAL_BLOCK_SIZE); b <= last; b++) {
+      this.dirtyData.add(b);
+    }
+  }
+
+  // Values decoded as views (structs) write straight into the buffer,
+  // the codec reports those writes for incremental saves
+  private watchViews(): void {
+    const codec = this.valueCodec;
+    if (!codec.watch) return;
+    this.buffer.forEachPage((page, start) =>
+      codec.watch!(page, (offset, length) =>
+        this.markData(start + offset, length),
+      ),
+    );
+  }
+
+  // The saved file no longer matches the layout (capacity or data region
+  // moved), so the next save has to be a full snapshot.
+  private invalidateSnapshot(): void {
+    this.savedChecksums = null;
+    this.layoutEpoch++;
+    if (this.dirtyData) this.dirtyData.clear();
+    if (this.dirtyBuckets) {
+      this.dirtyBuckets = new Uint8Array(
+        Math.ceil(this.capacity / 2 ** DIRTY_BUCKET_SHIFT),
       );
+    }
+  }
 
-    // Capacity
-    const capacity = data.readUInt32LE(cursor);
-    cursor += 4;
+  private walAppend(record: Buffer): void {
+    if (this.walPending) this.walPending.push(record);
 
-    // Size
-    const size = data.readUInt32LE(cursor);
-    cursor += 4;
+    const adapter = this.adapter!;
+    const walPath = this.walPath!;
+    this.walWrite(
+      () => adapter.appendSync!(record, walPath),
+      () => adapter.append!(record, walPath),
+    );
+  }
 
-    // WriteOffset
-    const writeOffset = data.readUInt32LE(cursor);
-    cursor += 4;
+  private walWrite(sync: () => void, async: () => Promise<void>): void {
+    if (this.walSync) {
+      try {
+        sync();
+        return;
+      } catch (e) {
+        // Only a missing sync API (e.g. IndexedDB) falls back to the queue,
+        // real I/O errors reach the caller
+        if (!(e instanceof RogueMapSyncUnsupportedError)) throw e;
+        this.walSync = false;
+      }
+    }
+    const run = this.walQueue.then(async);
+    this.walQueue = run.catch(() => {});
+    run.catch((e) => this.emit("error", e));
+  }
 
-    // BufferLength
-    const bufferLength = data.readUInt32LE(cursor);
-    cursor += 4;
+  private replayWal(log: Buffer): void {
+    if (this.cache) {
+      this.cache.clear();
+    }
 
-    // Restore Buckets
-    const bucketsSize = capacity * 4;
-    const bucketsBuffer = data.subarray(cursor, cursor + bucketsSize);
-
-    // We need to convert Int32Array (from buffer) to Float64Array
-    // Since persisted format uses 4 bytes per bucket, it assumes offsets fit in 32-bit.
-    // If we load a legacy format or a format that was saved when offsets were small, this is fine.
-    // If we want to support >2GB persistence, we need to upgrade the format version.
-    // For now, assume version 1 uses 32-bit buckets.
-
-    // Copy to aligned buffer to satisfy Int32Array alignment requirements
-    const alignedBucketsBuffer = Buffer.allocUnsafe(bucketsSize);
-    bucketsBuffer.copy(alignedBucketsBuffer);
-
-    // Create Float64Array for internal use
-    const savedBuckets = new Float64Array(capacity);
-    const tempInt32 = new Int32Array(
-      alignedBucketsBuffer.buffer,
-      alignedBucketsBuffer.byteOffset,
-      bucketsSize / 4,
+    for (const record of readWalRecords(log)) {
+      if (record.op === WAL_OP_SET) {
+        const key = this.keyCodec.decode(record.key, 0, record.key.length);
+        const value = this.valueCodec.decode(
+          record.value,
+          0,
+          record.value.length,
+        );
+        this.insert(key, value, this.hasher(key) | 0, record.expireAt);
+        this.setWindow(this.lastSlot, record.window);
+      } else if (record.op === WAL_OP_DELETE) {
+        const key = this.keyCodec.decode(record.key, 0, record.key.length);
+        const index = this.findIndex(key, this.hasher(key) | 0);
+        if (index !== -1) {
+          const offset = this._offsets[index];
+          this.buffer.writeUInt8(FLAG_DELETED, offset);
+          this._offsets[index] = -offset;
+          this.markDeleted(index, offset);
+          this._deletedCount++;
+          this._size--;
+        }
+      } else if (record.op === WAL_OP_EXPIRE) {
+        const key = this.keyCodec.decode(record.key, 0, record.key.length);
+        const index = this.findIndex(key, this.hasher(key) | 0);
+        if (index !== -1) {
+          this.writeExpireAt(index, record.expireAt);
+          this.setWindow(index, record.window);
+        }
+      } else {
+        this.reset();
+      }
+    }
+  }
+
+  private encodeKey(key: K): Buffer {
+    const buf = Buffer.allocUnsafe(this.keyCodec.byteLength(key));
+    this.keyCodec.encode(key, buf, 0);
+    return buf;
+  }
+
+  private encodeValue(value: V): Buffer {
+    const buf = Buffer.allocUnsafe(this.valueCodec.byteLength(value));
+    this.valueCodec.encode(value, buf, 0);
+    return buf;
+  }
+
+  private walDelete(key: K): void {
+    if (this.walPath) {
+      this.walAppend(encodeDeleteRecord(this.encodeKey(key)));
+    }
+  }
+
+  // Expired entries are logged as deletions so replay does not resurrect them
+  private expired(key: K): void {
+    this.walDelete(key);
+    this.emit("expire", key);
+  }
+
+  private loadFromBuffer(data: Buffer) {
+    this.loadFromChunks([data]);
+  }
+
+  private loadFromChunks(chunks: Iterable<Uint8Array>) {
+    // This logic is similar to deserialize but reuses the current instance
+    // Integrity is checked before any instance state is touched
+    const reader = new SnapshotReader();
+    for (const chunk of chunks) {
+      reader.push(chunk);
+    }
+    reader.finish();
+    this.applyCodecMeta(reader.snapshot().header.meta);
+    this.applySnapshot(reader.snapshot());
+  }
+
+  private async loadFromStream(stream: SnapshotStream) {
+    const reader = new SnapshotReader();
+    for await (const chunk of readStreamChunks(stream)) {
+      reader.push(chunk);
+    }
+    reader.finish();
+    this.applyCodecMeta(reader.snapshot().header.meta);
+    this.applySnapshot(reader.snapshot());
+  }
+
+  /**
+   * Checks the configured codecs against the ones the snapshot was written with,
+   * or adopts the saved ones if none were configured.
+   * Snapshots older than version 5 carry no metadata and are trusted as is.
+   */
+  private applyCodecMeta(meta?: SnapshotMeta) {
+    if (!meta) return;
+    const keyCodec = resolveCodec(
+      "key",
+      meta.key,
+      this.keyCodecSet ? this.keyCodec : undefined,
     );
-    for (let i = 0; i < capacity; i++) {
-      savedBuckets[i] = tempInt32[i];
+    const configured = this.valueCodecSet ? this.valueCodec : undefined;
+    const previous = configured && migrationSource(meta.value, configured);
+    this.keyCodec = keyCodec;
+    if (previous) {
+      // Entries keep the saved layout until migrateValues() rewrites them
+      this.migration = { codec: configured, from: meta.value.version ?? 0 };
+      this.valueCodec = previous;
+    } else {
+      this.valueCodec = resolveCodec("value", meta.value, configured);
+    }
+  }
+
+  // Rewrites the values of a snapshot saved with an older struct version
+  // (and the WAL replayed on top of it) in the configured layout.
+  // Returns the save that brings the file up to date, if there is one.
+  private migrateValues(): Promise<void> | undefined {
+    const migration = this.migration;
+    if (!migration) return undefined;
+    this.migration = null;
+
+    const { codec, from } = migration;
+    const entries: [K, V, number, number][] = [];
+    for (let i = 0; i < this.capacity; i++) {
+      const offset = this._offsets[i];
+      if (offset <= 0) continue;
+      entries.push([
+        this.readKey(offset),
+        codec.migrate!(this.readValue(offset), from),
+        this.readExpireAt(offset),
+        this.slidingTTLs ? this.slidingTTLs[i] : 0,
+      ]);
+    }
+
+    this.valueCodec = codec;
+    this.reset();
+    this.watchViews();
+    for (const [key, value, expireAt, window] of entries) {
+      this.insert(key, value, this.hasher(key) | 0, expireAt);
+      this.setWindow(this.lastSlot, window);
     }
 
-    cursor += bucketsSize;
+    // The file and the WAL still hold the old layout
+    return this.adapter ? this.save() : undefined;
+  }
+
+  // migrateValues() for synchronous loads: a failed save is emitted as "error"
+  private migrateOnLoad(): void {
+    const saved = this.migrateValues();
+    if (saved) saved.catch((e) => this.emit("error", e));
+  }
+
+  private applySnapshot(snapshot: LoadedSnapshot) {
+    const { header, offsets: savedBuckets, windows, buffer } = snapshot;
+    const { capacity, writeOffset } = header;
+
+    // Every bucket must point at an entry header inside the used region
+    for (let i = 0; i < capacity; i++) {
+      const offset = Math.abs(savedBuckets[i]);
+      if (offset !== 0 && offset + ENTRY_HEADER_SIZE_V2 > writeOffset) {
+        throw new RogueMapCorruptionError(
+          "buckets",
+          `bucket ${i} points outside the data region`,
+        );
+      }
+    }
 
     // Update instance state
     this.capacity = capacity;
     this.capacityMask = capacity - 1;
     this._hashes = new Int32Array(capacity);
     this._offsets = new Float64Array(capacity);
-    this._size = size;
     this.writeOffset = writeOffset;
-    this.buffer = PagedBuffer.allocUnsafe(bufferLength);
-    this.buffer.writeBuffer(data.subarray(cursor, cursor + bufferLength), 0);
+    this.buffer = buffer;
     this.rawBuffer = this.buffer.getSinglePage();
+    this.watchViews();
 
+    this._size = 0;
     this._deletedCount = 0;
 
     // REBUILD HASHES AND STATES
-    // Rebuild Table
+    // The bucket table is authoritative: entry flags are rewritten from it,
+    // since a snapshot streamed while the map was changing may carry newer flags.
     const hashes = this._hashes;
     const offsets = this._offsets;
-    // We have savedBuckets from load which are offsets
     for (let i = 0; i < this.capacity; i++) {
       const offset = savedBuckets[i];
-      if (offset !== 0) {
-        const flag = this.buffer.readUInt8(offset);
-        if (flag === FLAG_ACTIVE) {
-          const hash = this.buffer.readInt32LE(offset + 1);
-          hashes[i] = hash;
-          offsets[i] = offset; // Positive offset = Active
-        } else if (flag === FLAG_DELETED) {
-          const hash = this.buffer.readInt32LE(offset + 1);
-          hashes[i] = hash;
-          offsets[i] = -offset; // Negative offset = Deleted
+      if (offset > 0) {
+        hashes[i] = this.buffer.readInt32LE(offset + 1);
+        offsets[i] = offset; // Positive offset = Active
+        this.buffer.writeUInt8(FLAG_ACTIVE, offset);
+        this._size++;
+      } else if (offset < 0) {
+        hashes[i] = this.buffer.readInt32LE(-offset + 1);
+        offsets[i] = offset; // Negative offset = Deleted
+        this.buffer.writeUInt8(FLAG_DELETED, -offset);
+      }
+    }
+    this.invalidateSnapshot();
+
+    this.slidingTTLs = null;
+    if (windows) {
+      this.slidingTTLs = new Float64Array(capacity);
+      for (let i = 0; i < capacity; i++) {
+        if (offsets[i] > 0) this.slidingTTLs[i] = windows[i];
+      }
+    } else if (this.slidingTTL && this.defaultTTL > 0) {
+      // Older snapshots have no window table: expiring entries slide by the map's TTL
+      this.slidingTTLs = new Float64Array(capacity);
+      for (let i = 0; i < capacity; i++) {
+        if (offsets[i] > 0 && this.readExpireAt(offsets[i]) > 0) {
+          this.slidingTTLs[i] = this.defaultTTL;
         }
       }
     }
+
+    if (this.eviction) {
+      // Access history is not saved: loaded entries rank by table order
+      this.eviction.reset(capacity);
+      for (let i = 0; i < capacity; i++) {
+        if (offsets[i] > 0) this.eviction.added(i);
+      }
+      this.eviction.last = -1;
+      while (this.maxEntries && this._size > this.maxEntries) {
+        if (!this.evictOne()) break;
+      }
+    }
   }
 
   /**
@@ -350,29 +923,19 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
    * @param options Optional settings like TTL.
    */
   set(key: K, value: V, options?: SetOptions): void {
-    if (this.cache) {
-      // Update cache on write
-      if (this.cache.has(key)) {
-        // Refresh
-        this.cache.delete(key);
-        this.cache.set(key, value);
-      } else {
-        // Add new? Maybe not. Cache is usually for "read hot", not "write hot".
-        // But if we just wrote it, we likely read it soon.
-        if (this.cache.size >= this.cacheSize) {
-          const oldestKey = this.cache.keys().next().value;
-          if (oldestKey !== undefined) {
-            const evictedVal = this.cache.get(oldestKey);
-            this.cache.delete(oldestKey);
-            this.emit("evict", oldestKey, evictedVal);
-          }
-        }
-        this.cache.set(key, value);
-      }
-    }
+    this.store(key, value, options, -1);
+  }
 
-    if (this._size >= this.capacity * 0.75) {
-      this.resize(this.capacity * 2, this.buffer.length * 2);
+  // set() into `slot`, a free bucket on the key's probe path (-1 = probe)
+  private store(
+    key: K,
+    value: V,
+    options: SetOptions | undefined,
+    slot: number,
+  ): void {
+    if (this.cache) {
+      // Update cache on write: if we just wrote it, we likely read it soon
+      this.cache.set(key, value);
     }
 
     const hash = this.hasher(key) | 0;
@@ -381,12 +944,316 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     let expireAt: number = 0; // 0 = no expiry
     const ttl = options?.ttl !== undefined ? options.ttl : this.defaultTTL;
     if (ttl > 0) {
-      expireAt = Date.now() + ttl;
+      expireAt = this.clock() + ttl;
+    }
+
+    this.insert(key, value, hash, expireAt, slot);
+    const sliding =
+      options?.slidingTTL !== undefined ? options.slidingTTL : this.slidingTTL;
+    const window = sliding && ttl > 0 ? ttl : 0;
+    this.setWindow(this.lastSlot, window);
+    this.emit("set", key, value);
+
+    if (this.walPath) {
+      this.walAppend(
+        encodeSetRecord(
+          this.encodeKey(key),
+          this.encodeValue(value),
+          expireAt,
+          window,
+        ),
+      );
+    }
+
+    this.checkCompaction();
+  }
+
+  /**
+   * Replaces the value of an existing key with `fn(value)`, keeping its expiry.
+   * Returns the new value, or undefined (without calling `fn`) if the key is missing.
+   *
+   * The key is looked up once. A new value of the same encoded size (always
+   * true for fixed-length codecs) is written over the old one instead of
+   * appending a new entry.
+   * `fn` must not modify the map.
+   *
+   * @param key The key of the element to update.
+   * @param fn Computes the new value from the current one.
+   */
+  update(key: K, fn: (value: V, key: K) => V): V | undefined {
+    const index = this.findLive(key);
+    if (index === -1) return undefined;
+    const value = fn(this.readValue(this._offsets[index]), key);
+    this.replace(index, key, value);
+    return value;
+  }
+
+  /**
+   * Returns the value of the key, setting it to `factory(key)` first if it is missing.
+   *
+   * @param key The key of the element to look up.
+   * @param factory Creates the value of a missing key.
+   * @param options Optional settings like TTL, used when the value is created.
+   */
+  getOrSet(key: K, factory: (key: K) => V, options?: SetOptions): V {
+    return this.computeIfAbsent(key, factory, options) as V;
+  }
+
+  /**
+   * Sets the key to `fn(value, key)`, where `value` is undefined if the key is missing.
+   * Returning undefined deletes the key. Returns the new value.
+   * An existing key keeps its expiry, a new key gets the map's TTL.
+   *
+   * @param key The key of the element to compute.
+   * @param fn Computes the new value from the current one, if any.
+   */
+  compute(
+    key: K,
+    fn: (value: V | undefined, key: K) => V | undefined,
+  ): V | undefined {
+    const index = this.findLive(key);
+    const free = this.freeSlot();
+    const current =
+      index === -1 ? undefined : this.readValue(this._offsets[index]);
+    const value = fn(current, key);
+    if (value === undefined) {
+      if (index !== -1) this.delete(key);
+    } else if (index === -1) {
+      this.store(key, value, undefined, free());
+    } else {
+      this.replace(index, key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Returns the value of the key. A missing key is set to `fn(key)` first,
+   * unless `fn` returns undefined.
+   *
+   * @param key The key of the element to look up.
+   * @param fn Computes the value of a missing key.
+   * @param options Optional settings like TTL, used when the value is created.
+   */
+  computeIfAbsent(
+    key: K,
+    fn: (key: K) => V | undefined,
+    options?: SetOptions,
+  ): V | undefined {
+    const index = this.findLive(key);
+    if (index !== -1) {
+      // A hit counts as a read
+      if (this.eviction) this.eviction.touched(index);
+      if (this.slidingTTLs) this.slide(index);
+      return this.readValue(this._offsets[index]);
+    }
+    const free = this.freeSlot();
+    const value = fn(key);
+    if (value !== undefined) this.store(key, value, options, free());
+    return value;
+  }
+
+  /**
+   * Sets an existing key to `fn(value, key)`, keeping its expiry.
+   * Returning undefined deletes the key. Returns the new value,
+   * or undefined (without calling `fn`) if the key is missing.
+   *
+   * @param key The key of the element to compute.
+   * @param fn Computes the new value from the current one.
+   */
+  computeIfPresent(
+    key: K,
+    fn: (value: V, key: K) => V | undefined,
+  ): V | undefined {
+    const index = this.findLive(key);
+    if (index === -1) return undefined;
+    const value = fn(this.readValue(this._offsets[index]), key);
+    if (value === undefined) {
+      this.delete(key);
+    } else {
+      this.replace(index, key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Adds `delta` to the numeric value of the key and returns the result.
+   * A missing key starts from `options.initial` (default 0) and gets
+   * `options.ttl`, an existing key keeps its expiry.
+   *
+   * Requires an Int32Codec, Float64Codec or BigInt64Codec value codec;
+   * the value is updated in place. Int32 results must stay integers in range.
+   *
+   * @param key The key of the counter.
+   * @param delta The amount to add. Default: 1.
+   * @param options Optional initial value and settings for a new key.
+   */
+  incr(key: K, delta: number | bigint = 1, options?: IncrOptions): V {
+    const id = this.valueCodec.id;
+    if (id !== "int32" && id !== "float64" && id !== "bigint64") {
+      throw new Error(
+        "RogueMap: incr() requires an Int32Codec, Float64Codec or BigInt64Codec value codec",
+      );
+    }
+
+    const index = this.findLive(key);
+    if (index === -1) {
+      const initial = options?.initial ?? 0;
+      const value = this.addDelta(
+        (id === "bigint64" ? BigInt(initial) : Number(initial)) as V,
+        delta,
+      );
+      this.store(key, value, options, this.missSlot);
+      return value;
+    }
+    const value = this.addDelta(this.readValue(this._offsets[index]), delta);
+    this.replace(index, key, value);
+    return value;
+  }
+
+  /**
+   * Subtracts `delta` from the numeric value of the key, see incr().
+   *
+   * @param key The key of the counter.
+   * @param delta The amount to subtract. Default: 1.
+   * @param options Optional initial value and settings for a new key.
+   */
+  decr(key: K, delta: number | bigint = 1, options?: IncrOptions): V {
+    return this.incr(key, -delta, options);
+  }
+
+  // Counter arithmetic for incr(), checked before anything is written
+  private addDelta(current: V, delta: number | bigint): V {
+    if (this.valueCodec.id === "bigint64") {
+      const next = (current as bigint) + BigInt(delta);
+      if (next > INT64_MAX || next < -INT64_MAX - 1n) {
+        throw new Error(`RogueMap: BigInt64 overflow (${next})`);
+      }
+      return next as V;
+    }
+
+    const next = (current as number) + Number(delta);
+    if (this.valueCodec.id === "int32") {
+      if (!Number.isInteger(next)) {
+        throw new Error(`RogueMap: Int32 value must be an integer (${next})`);
+      }
+      if (next > 0x7fffffff || next < -0x80000000) {
+        throw new Error(`RogueMap: Int32 overflow (${next})`);
+      }
+    }
+    return next as V;
+  }
+
+  // Stores a new value for the live entry in bucket `index`, keeping its expiry.
+  // Same-size values are overwritten in place, others are appended as a new entry.
+  private replace(index: number, key: K, value: V): void {
+    if (this.cache) this.cache.set(key, value);
+
+    const expireAt = this.readExpireAt(this._offsets[index]);
+    const window = this.slidingTTLs ? this.slidingTTLs[index] : 0;
+    if (this.overwrite(index, value, expireAt)) {
+      if (this.eviction) this.eviction.updated(index);
+    } else {
+      this.insert(key, value, this._hashes[index], expireAt);
+      this.setWindow(this.lastSlot, window);
+    }
+    this.emit("set", key, value);
+
+    if (this.walPath) {
+      this.walAppend(
+        encodeSetRecord(
+          this.encodeKey(key),
+          this.encodeValue(value),
+          expireAt,
+          window,
+        ),
+      );
+    }
+
+    this.checkCompaction();
+  }
+
+  // Rewrites the live entry in bucket `index` in place if the new value fits
+  // in the old one, which is always true for fixed-length codecs. A shorter
+  // value stores its own length and zeroes the rest of the slot: a zero flag
+  // byte is never an entry, so the scans in resize() and the iterators skip
+  // it. A streaming snapshot may still be reading the old bytes.
+  private overwrite(index: number, value: V, expireAt: number): boolean {
+    if (this.snapshots > 0) return false;
+    const offset = this._offsets[index];
+    let valSize = this.valueCodec.fixedLength;
+    if (valSize === undefined) {
+      valSize = this.valueCodec.byteLength(value);
+      let cursor = offset + 5 + 8; // Skip Flag(1) + Hash(4) + ExpireAt(8)
+      let keySize = this.keyCodec.fixedLength;
+      if (keySize === undefined) {
+        keySize = this.buffer.readInt32LE(cursor);
+        cursor += 4;
+      }
+      const storedSize = this.buffer.readInt32LE(cursor);
+      if (valSize > storedSize) return false;
+      if (valSize < storedSize) {
+        this.buffer.writeInt32LE(valSize, cursor);
+        const end = cursor + 4 + keySize + storedSize;
+        const slack = storedSize - valSize;
+        this.buffer.writeBuffer(Buffer.alloc(slack), end - slack);
+        this.markData(cursor, end - cursor);
+      }
+    }
+    this.writeExpireAt(index, expireAt);
+    this.writeValue(offset, value, valSize);
+    return true;
+  }
+
+  // Overwrites the value of the entry at `offset` with one of its stored length
+  private writeValue(offset: number, value: V, valSize: number): void {
+    let cursor = offset + 5 + 8; // Skip Flag(1) + Hash(4) + ExpireAt(8)
+    let keySize: number;
+    if (this.keyCodec.fixedLength !== undefined) {
+      keySize = this.keyCodec.fixedLength;
+    } else {
+      keySize = this.buffer.readInt32LE(cursor);
+      cursor += 4;
+    }
+    if (this.valueCodec.fixedLength === undefined) cursor += 4;
+    cursor += keySize;
+    if (valSize === 0) return;
+
+    if (this.rawBuffer) {
+      this.valueCodec.encode(value, this.rawBuffer, cursor);
+    } else {
+      const valBuf = Buffer.allocUnsafe(valSize);
+      this.valueCodec.encode(value, valBuf, 0);
+      this.buffer.writeBuffer(valBuf, cursor);
+    }
+    this.markData(cursor, valSize);
+  }
+
+  // Adds or replaces the entry of `key`. A free `slot` from a probe that
+  // missed the key skips the probe, unless the table is rebuilt first.
+  private insert(
+    key: K,
+    value: V,
+    hash: number,
+    expireAt: number,
+    slot: number = -1,
+  ): void {
+    const table = this._offsets;
+    if (this._size >= this.capacity * 0.75) {
+      this.resize(this.capacity * 2, this.grownMemory());
+    }
+    if (this.maxMemory) {
+      this.reserve(this.entrySize(key, value));
     }
 
     try {
-      this.put(key, value, hash, expireAt);
-      this.emit("set", key, value);
+      if (slot !== -1 && this._offsets === table) {
+        this.writeEntry(slot, key, value, hash, expireAt);
+        if (this.eviction) this.eviction.added(slot);
+        this.lastSlot = slot;
+        this._size++;
+      } else {
+        this.put(key, value, hash, expireAt);
+      }
     } catch (e: any) {
       if (e.message === "RogueMap: Out of memory (Buffer full)") {
         // Calculate needed size roughly or just double repeatedly
@@ -400,7 +1267,6 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
           this.resize(this.capacity, this.buffer.length * 2);
           try {
             this.put(key, value, hash, expireAt);
-            this.emit("set", key, value);
             break; // Success
           } catch (retryErr: any) {
             if (retryErr.message === "RogueMap: Out of memory (Buffer full)") {
@@ -413,15 +1279,92 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         if (retries === 3) throw e; // Give up
       } else if (e.message === "RogueMap: Hash table full") {
         // Should be caught by load factor check, but safe fallback
-        this.resize(this.capacity * 2, this.buffer.length * 2);
+        this.resize(this.capacity * 2, this.grownMemory());
         this.put(key, value, hash, expireAt);
-        this.emit("set", key, value);
       } else {
         throw e;
       }
     }
 
-    this.checkCompaction();
+    this.setWindow(this.lastSlot, 0); // The bucket may have held a sliding entry
+    if (this.maxEntries && this._size > this.maxEntries) {
+      this.evictOne();
+    }
+  }
+
+  // Doubled buffer size, capped by maxMemory (but never below the current size)
+  private grownMemory(): number {
+    const memory = this.buffer.length * 2;
+    if (!this.maxMemory) return memory;
+    return Math.max(Math.min(memory, this.maxMemory), this.buffer.length);
+  }
+
+  private entrySize(key: K, value: V): number {
+    let size = ENTRY_HEADER_SIZE_V2;
+    if (this.keyCodec.fixedLength === undefined) size += 4;
+    if (this.valueCodec.fixedLength === undefined) size += 4;
+    return (
+      size + this.keyCodec.byteLength(key) + this.valueCodec.byteLength(value)
+    );
+  }
+
+  // Makes room for `needed` more bytes without growing past maxMemory:
+  // grows the buffer up to the cap, then evicts and compacts.
+  private reserve(needed: number): void {
+    if (this.writeOffset + needed <= this.buffer.length) return;
+    const limit = this.maxMemory;
+    if (needed + 1 > limit) {
+      throw new Error(
+        `RogueMap: Entry of ${needed} bytes does not fit in maxMemory`,
+      );
+    }
+
+    if (this.buffer.length < limit) {
+      let memory = this.buffer.length * 2;
+      while (memory < this.writeOffset + needed) memory *= 2;
+      this.resize(this.capacity, Math.min(memory, limit));
+      if (this.writeOffset + needed <= this.buffer.length) return;
+    }
+
+    // Evict until the live entries leave some headroom, so the buffer
+    // is not compacted again on the very next insert
+    let live = 1;
+    const offsets = this._offsets;
+    for (let i = 0; i < this.capacity; i++) {
+      if (offsets[i] > 0) live += this.entryLength(offsets[i]);
+    }
+    const target = Math.floor(limit * (1 - EVICTION_HEADROOM)) - needed;
+    this.eviction!.last = -1;
+    while (live > target) {
+      const freed = this.evictOne();
+      if (!freed) break;
+      live -= freed;
+    }
+    this.resize(this.capacity, limit);
+  }
+
+  // Evicts the entry chosen by the eviction policy and emits "evict".
+  // Returns the bytes it occupied, or 0 if there was nothing to evict.
+  private evictOne(): number {
+    const index = this.eviction!.victim(this._offsets);
+    if (index === -1) return 0;
+
+    const offset = this._offsets[index];
+    const key = this.readKey(offset);
+    const value = this.readValue(offset);
+    const length = this.entryLength(offset);
+
+    this.buffer.writeUInt8(FLAG_DELETED, offset);
+    this._offsets[index] = -offset;
+    this.markDeleted(index, offset);
+    this._deletedCount++;
+    this._size--;
+    if (this.cache) {
+      this.cache.delete(key);
+    }
+    this.walDelete(key);
+    this.emit("evict", key, value);
+    return length;
   }
 
   private put(key: K, value: V, hash: number, expireAt: number): void {
@@ -526,6 +1469,9 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
           hashes[finalIndex] = hash;
           offsets[finalIndex] = this.writeOffset; // Offset > 0 is Active
+          this.markBucket(finalIndex);
+          if (this.eviction) this.eviction.added(finalIndex);
+          this.lastSlot = finalIndex;
           this.writeOffset += entrySize;
           this._size++;
           return;
@@ -573,14 +1519,55 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
               if (match) {
                 // MATCH FOUND - UPDATE
+                const valLen = this.valueCodec.byteLength(value);
+                let storedValLen = valLen;
+                if (valFixed === undefined) {
+                  storedValLen =
+                    raw[cursor - 4] |
+                    (raw[cursor - 3] << 8) |
+                    (raw[cursor - 2] << 16) |
+                    (raw[cursor - 1] << 24);
+                }
+                if (storedValLen >= valLen && this.snapshots === 0) {
+                  // Fits: rewrite ExpireAt and value in place, see overwrite()
+                  const low = expireAt % 0x100000000;
+                  const high = Math.floor(expireAt / 0x100000000);
+                  raw[storedOffset + 5] = low & 0xff;
+                  raw[storedOffset + 6] = (low >>> 8) & 0xff;
+                  raw[storedOffset + 7] = (low >>> 16) & 0xff;
+                  raw[storedOffset + 8] = (low >>> 24) & 0xff;
+                  raw[storedOffset + 9] = high & 0xff;
+                  raw[storedOffset + 10] = (high >>> 8) & 0xff;
+                  raw[storedOffset + 11] = (high >>> 16) & 0xff;
+                  raw[storedOffset + 12] = (high >>> 24) & 0xff;
+                  if (valLen > 0) {
+                    this.valueCodec.encode(value, raw, cursor + keyLen);
+                  }
+                  if (storedValLen > valLen) {
+                    raw.writeInt32LE(valLen, cursor - 4);
+                    raw.fill(
+                      0,
+                      cursor + keyLen + valLen,
+                      cursor + keyLen + storedValLen,
+                    );
+                  }
+                  this.markData(
+                    storedOffset + 5,
+                    cursor + keyLen + storedValLen - storedOffset - 5,
+                  );
+                  if (this.eviction) this.eviction.updated(index);
+                  this.lastSlot = index;
+                  return;
+                }
+
                 // Mark old as deleted in buffer (optional but good for debugging/iteration)
                 raw[storedOffset] = FLAG_DELETED;
                 // Update table to deleted temporarily
                 offsets[index] = -storedOffset;
+                this.markDeleted(index, storedOffset);
                 this._deletedCount++;
 
                 // Append new
-                const valLen = this.valueCodec.byteLength(value);
                 let entrySize = 5 + 8; // Header V2
                 if (keyFixed === undefined) entrySize += 4;
                 if (valFixed === undefined) entrySize += 4;
@@ -639,6 +1626,9 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
                 hashes[index] = hash;
                 offsets[index] = this.writeOffset; // Update to new active
+                this.markBucket(index);
+                if (this.eviction) this.eviction.updated(index);
+                this.lastSlot = index;
                 this.writeOffset += entrySize;
                 return;
               }
@@ -662,6 +1652,8 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         // Found empty slot
         const finalIndex = tombstoneIndex !== -1 ? tombstoneIndex : index;
         this.writeEntry(finalIndex, key, value, hash, expireAt);
+        if (this.eviction) this.eviction.added(finalIndex);
+        this.lastSlot = finalIndex;
         this._size++;
         return;
       }
@@ -673,13 +1665,22 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         // Active
         if (storedHash === hash) {
           if (this.keyMatchesPreEncoded(storedOffset, keyLen)) {
+            if (this.overwrite(index, value, expireAt)) {
+              if (this.eviction) this.eviction.updated(index);
+              this.lastSlot = index;
+              return;
+            }
+
             // Mark old as deleted
             this.buffer.writeUInt8(FLAG_DELETED, storedOffset);
             offsets[index] = -storedOffset;
+            this.markDeleted(index, storedOffset);
             this._deletedCount++;
 
             // Append new entry and update bucket
             this.writeEntry(index, key, value, hash, expireAt);
+            if (this.eviction) this.eviction.updated(index);
+            this.lastSlot = index;
             return;
           }
         }
@@ -693,6 +1694,44 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     }
   }
 
+  // Removes expired entries, walking the table from where the last sweep
+  // stopped until the whole table is checked or the time budget runs out.
+  private sweep(): void {
+    const start = Date.now(); // The budget is real time, whatever the clock
+    const now = this.clock();
+    const offsets = this._offsets;
+    const capacity = this.capacity;
+    let index = this.sweepCursor % capacity;
+
+    for (let checked = 0; checked < capacity; checked++) {
+      // Checking the clock is slower than checking an entry
+      if ((checked & 255) === 255 && Date.now() - start >= this.sweepBudget) {
+        break;
+      }
+
+      const offset = offsets[index];
+      if (offset > 0) {
+        const expireAt = this.readExpireAt(offset);
+        if (expireAt > 0 && now > expireAt) {
+          const key = this.readKey(offset);
+          this.buffer.writeUInt8(FLAG_DELETED, offset);
+          offsets[index] = -offset;
+          this.markDeleted(index, offset);
+          this._deletedCount++;
+          this._size--;
+          if (this.cache) {
+            this.cache.delete(key);
+          }
+          this.expired(key);
+        }
+      }
+      index = (index + 1) & this.capacityMask;
+    }
+
+    this.sweepCursor = index;
+    this.checkCompaction();
+  }
+
   private checkCompaction() {
     if (!this.compaction.autoCompact) return;
 
@@ -715,10 +1754,29 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
       newCapacity = Math.pow(2, Math.ceil(Math.log2(newCapacity)));
     }
 
+    // Per-bucket side tables (eviction ranks, sliding TTLs) follow their
+    // entries: old buckets are looked up by data offset
+    const oldRanks = this.eviction ? this.eviction.reset(newCapacity) : null;
+    const oldSliding = this.slidingTTLs;
+    if (oldSliding) this.slidingTTLs = new Float64Array(newCapacity);
+    let oldSlots: Map<number, number> | null = null;
+    if (oldRanks || oldSliding) {
+      const oldOffsets = this._offsets;
+      oldSlots = new Map();
+      for (let i = 0; i < oldOffsets.length; i++) {
+        if (oldOffsets[i] > 0) oldSlots.set(oldOffsets[i], i);
+      }
+    }
+    const moveSlot = (from: number, to: number) => {
+      if (oldRanks) this.eviction!.ranks[to] = oldRanks[from];
+      if (oldSliding) this.slidingTTLs![to] = oldSliding[from];
+    };
+
     this.capacity = newCapacity;
     this.capacityMask = newCapacity - 1;
     this._hashes = new Int32Array(this.capacity);
     this._offsets = new Float64Array(this.capacity);
+    this.invalidateSnapshot();
     // this.buckets = new Float64Array(this.capacity);
     // this.hashes = new Int32Array(this.capacity);
     // this.states = new Uint8Array(this.capacity);
@@ -729,6 +1787,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
     this.buffer = PagedBuffer.allocUnsafe(newMemory);
     this.rawBuffer = this.buffer.getSinglePage();
+    this.watchViews();
 
     const newRaw = this.rawBuffer;
     // If we can use single page for both, it's super fast
@@ -736,6 +1795,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
     this.writeOffset = 1;
     this._size = 0;
+    this._deletedCount = 0; // Only active entries are copied
 
     let cursor = 1;
 
@@ -743,6 +1803,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
       // === FASTEST PATH: Raw Buffer to Raw Buffer ===
       while (cursor < oldLimit) {
         const flag = oldRaw[cursor]; // Direct read
+        if (flag === 0) {
+          cursor++; // Padding after a value shortened in place, see overwrite()
+          continue;
+        }
 
         // Layout: [Flag(1)] [Hash(4)] [KeyLen(4)?] [ValLen(4)?] [Key] [Val]
         // Read Hash manually
@@ -804,6 +1868,8 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
               // Empty
               hashes[index] = hash;
               offsets[index] = this.writeOffset;
+              this.markBucket(index);
+              if (oldSlots) moveSlot(oldSlots.get(cursor)!, index);
               this._size++;
               break;
             }
@@ -825,6 +1891,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
       // Actually, let's just use the old loop logic but adapted for new table structure
       while (cursor < oldLimit) {
         const flag = oldBuffer.readUInt8(cursor);
+        if (flag === 0) {
+          cursor++; // Padding after a value shortened in place, see overwrite()
+          continue;
+        }
         const hash = oldBuffer.readInt32LE(cursor + 1);
 
         // Read ExpireAt (new V2 layout)
@@ -866,6 +1936,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
           const value = this.valueCodec.decode(valBuf, 0, valSize);
 
           this.put(key, value, hash, expireAt);
+          if (oldSlots) moveSlot(oldSlots.get(cursor)!, this.lastSlot);
         }
         cursor += entryLen;
       }
@@ -883,6 +1954,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     let cursor = 1;
     while (cursor < this.writeOffset) {
       const flag = this.buffer.readUInt8(cursor);
+      if (flag === 0) {
+        cursor++; // Padding after a value shortened in place, see overwrite()
+        continue;
+      }
 
       let entryLen = 5 + 8; // Flag + Hash + ExpireAt
 
@@ -912,7 +1987,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         const high = this.buffer.readUInt32LE(cursor + 9);
         const expireAt = high * 0x100000000 + low;
 
-        if (expireAt > 0 && Date.now() > expireAt) {
+        if (expireAt > 0 && this.clock() > expireAt) {
           // Expired! Treat as deleted (don't copy)
           // But compact logic copies ACTIVE. So we just skip adding to requiredSize.
           // Wait, if we skip adding, resize() will skip it too?
@@ -927,7 +2002,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
           // Use readBuffer to be safe across pages (though compact implies we might be iterating)
           const keyBuf = this.buffer.readBuffer(keyStart, keySize);
           const key = this.keyCodec.decode(keyBuf, 0, keySize);
-          this.emit("expire", key);
+          this.expired(key);
 
           this.buffer.writeUInt8(FLAG_DELETED, cursor);
           // We should also update index? But resize() rebuilds index from scratch.
@@ -943,7 +2018,13 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     }
 
     // Add 20% margin or minimum
-    const newBufferSize = Math.max(requiredSize * 1.2, 1024);
+    let newBufferSize = Math.max(requiredSize * 1.2, 1024);
+    if (this.maxMemory) {
+      newBufferSize = Math.max(
+        Math.min(newBufferSize, this.maxMemory),
+        requiredSize,
+      );
+    }
     this.resize(this.capacity, newBufferSize);
     this._deletedCount = 0; // Reset deleted count
 
@@ -957,95 +2038,115 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
    * Serializes the map state into a Buffer.
    * The returned buffer contains the full state of the map and can be saved to disk or transmitted.
    * Use RogueMap.deserialize() to restore the map from this buffer.
+   * For maps larger than a single Buffer can hold, use serializeChunks().
    */
   serialize(): Buffer {
-    // Format:
-    // [Magic: ROGUE(5)]
-    // [Version: 2(1)] (Bump to 2 for TTL support)
-    // [Capacity: 4]
-    // [Size: 4]
-    // [WriteOffset: 4]
-    // [BufferLength: 4]
-    // [Buckets: Capacity * 4]
-    // [Buffer: BufferLength]
-
     // It is recommended to compact before serialize to save space, but we don't enforce it here.
+    return Buffer.concat(Array.from(this.serializeChunks()));
+  }
 
-    const headerSize = 5 + 1 + 4 + 4 + 4 + 4;
-    const bucketsSize = this.capacity * 4;
-    const bufferSize = this.writeOffset; // Only save used buffer
-
-    const totalSize = headerSize + bucketsSize + bufferSize;
-
-    // Check limit
-    if (totalSize > 2 * 1024 * 1024 * 1024) {
-      // Node.js Buffer size limit is usually 2GB or 4GB.
-      // If we exceed 2GB, we risk failure depending on version.
-      // We will try to alloc. If it fails, it throws.
-    }
-
-    const result = Buffer.allocUnsafe(totalSize);
-
-    let cursor = 0;
-
-    // Magic
-    result.write("ROGUE", cursor);
-    cursor += 5;
-
-    // Version
-    result.writeUInt8(2, cursor);
-    cursor += 1;
-
-    // Capacity
-    result.writeUInt32LE(this.capacity, cursor);
-    cursor += 4;
-
-    // Size
-    result.writeUInt32LE(this._size, cursor);
-    cursor += 4;
+  /**
+   * Serializes the map state as a sequence of chunks (see src/format.ts).
+   * The bucket table is emitted in 1MB slices and the data region page by page,
+   * so multi-GB maps can be saved without allocating a single giant buffer.
+   * Consume the chunks before modifying the map.
+   */
+  serializeChunks(): IterableIterator<Buffer> {
+    return writeSnapshot(this.snapshotSource(this._offsets));
+  }
 
-    // WriteOffset
-    result.writeUInt32LE(this.writeOffset, cursor);
-    cursor += 4;
+  private snapshotSource(
+    offsets: Float64Array,
+    windows: Float64Array | null = this.slidingTTLs,
+  ): SnapshotSource {
+    return {
+      capacity: this.capacity,
+      size: this._size,
+      writeOffset: this.writeOffset,
+      offsets,
+      windows,
+      buffer: this.buffer,
+      meta: {
+        key: codecInfo(this.keyCodec),
+        value: codecInfo(this.valueCodec),
+      },
+    };
+  }
 
-    // BufferLength (stored)
-    result.writeUInt32LE(bufferSize, cursor);
-    cursor += 4;
+  /**
+   * Serializes the map state as a Node.js Readable stream.
+   * The stream captures the map as of this call; later writes are not included.
+   * Use RogueMap.fromStream() to restore the map.
+   */
+  serializeStream(): Readable {
+    return Readable.from(this.openSnapshot(), { objectMode: false });
+  }
 
-    // Buckets
-    // Convert Float64Array table to Int32Array buffer for compatibility
-    // We only need offsets for persistence compatibility (or upgrade format)
-    // The current format expects [Offset, Offset, ...] (Int32)
-    // Our table is [Hash, Offset, Hash, Offset]
-    // So we need to extract every second element
-    const tempInt32 = new Int32Array(this.capacity);
-    for (let i = 0; i < this.capacity; i++) {
-      // Offset is at index 2*i + 1
-      // If offset < 0 (deleted), we save 0? Or do we save tombstone?
-      // Original logic didn't save tombstones in buckets array, they were just 0?
-      // Wait, original logic: buckets[i] is offset. If state[i] is DELETED, bucket still points to it?
-      // No, typically linear probing re-finds it.
-      // Actually in serialize, we only save active offsets?
-      // Let's check rebuild logic. Rebuild iterates buckets. If offset != 0, it reads flag.
-      // If flag is DELETED, it restores state=DELETED.
-      // So yes, we need to save the absolute offset even if deleted.
-      const offset = this._offsets[i];
-      tempInt32[i] = Math.abs(offset);
-    }
+  /**
+   * Serializes the map state as a Web ReadableStream (browsers, Deno, Node 18+).
+   * The stream captures the map as of this call; later writes are not included.
+   */
+  serializeWebStream(): ReadableStream<Uint8Array> {
+    const chunks = this.openSnapshot();
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const result = chunks.next();
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      },
+      cancel() {
+        chunks.return!();
+      },
+    });
+  }
 
-    const bucketsBuffer = Buffer.from(
-      tempInt32.buffer,
-      tempInt32.byteOffset,
-      tempInt32.byteLength,
+  // Point-in-time snapshot for asynchronous consumers. The bucket table is
+  // copied and reset() swaps buffers until the iterator is finished or closed.
+  // Other writes only append past writeOffset or flip flags, which the loader
+  // rebuilds from the table.
+  private openSnapshot(
+    blockSize: number = SNAPSHOT_BLOCK_SIZE,
+    onChecksums?: (checksums: SnapshotChecksums) => void,
+  ): IterableIterator<Buffer> {
+    const chunks = writeSnapshot(
+      this.snapshotSource(
+        this._offsets.slice(),
+        this.slidingTTLs && this.slidingTTLs.slice(),
+      ),
+      blockSize,
+      onChecksums,
     );
-    bucketsBuffer.copy(result, cursor);
-    cursor += bucketsSize;
-
-    // Buffer
-    // Need to copy from PagedBuffer to result Buffer
-    this.buffer.copy(result, cursor, 0, bufferSize);
+    let open = true;
+    this.snapshots++;
+    const release = () => {
+      if (open) {
+        open = false;
+        this.snapshots--;
+      }
+    };
 
-    return result;
+    const iterator: IterableIterator<Buffer> = {
+      next: () => {
+        if (!open) return { done: true, value: undefined };
+        try {
+          const result = chunks.next();
+          if (result.done) release();
+          return result;
+        } catch (e) {
+          release();
+          throw e;
+        }
+      },
+      return: (value?: any) => {
+        release();
+        return { done: true, value };
+      },
+      [Symbol.iterator]: () => iterator,
+    };
+    return iterator;
   }
 
   /**
@@ -1060,6 +2161,41 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
   ): RogueMap<K, V> {
     const map = new RogueMap<K, V>(options);
     map.loadFromBuffer(data);
+    map.migrateOnLoad();
+    return map;
+  }
+
+  /**
+   * Creates a new RogueMap instance from serialized chunks,
+   * e.g. the output of serializeChunks() or a file read piece by piece.
+   *
+   * @param chunks The serialized map data, in order.
+   * @param options Configuration options for the new instance.
+   */
+  static fromChunks<K, V>(
+    chunks: Iterable<Uint8Array>,
+    options: RogueMapOptions<K, V> = {},
+  ): RogueMap<K, V> {
+    const map = new RogueMap<K, V>(options);
+    map.loadFromChunks(chunks);
+    map.migrateOnLoad();
+    return map;
+  }
+
+  /**
+   * Creates a new RogueMap instance from a stream, rebuilding the table
+   * incrementally as chunks arrive (the file is never held in memory at once).
+   *
+   * @param stream A Node.js Readable (or any async iterable of chunks) or a Web ReadableStream.
+   * @param options Configuration options for the new instance.
+   */
+  static async fromStream<K, V>(
+    stream: SnapshotStream,
+    options: RogueMapOptions<K, V> = {},
+  ): Promise<RogueMap<K, V>> {
+    const map = new RogueMap<K, V>(options);
+    await map.loadFromStream(stream);
+    await map.migrateValues();
     return map;
   }
 
@@ -1073,10 +2209,22 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     if (this.cache) {
       const val = this.cache.get(key);
       if (val !== undefined) {
-        // LRU: Refresh (delete and re-add)
+        if (
+          !(this.eviction && this.eviction.tracksReads) &&
+          !this.slidingTTLs
+        ) {
+          return val;
+        }
+        const index = this.findIndex(key, this.hasher(key) | 0);
+        if (index === -1) return val;
+        const expireAt = this.readExpireAt(this._offsets[index]);
+        if (expireAt === 0 || this.clock() <= expireAt) {
+          if (this.eviction) this.eviction.touched(index);
+          if (this.slidingTTLs) this.slide(index);
+          return val;
+        }
+        // Expired while cached: a miss, the lookup below removes it
         this.cache.delete(key);
-        this.cache.set(key, val);
-        return val;
       }
     }
 
@@ -1171,14 +2319,15 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
                   (raw[eCursor + 7] << 24);
                 const expireAt = high * 0x100000000 + low;
 
-                if (expireAt > 0 && Date.now() > expireAt) {
+                if (expireAt > 0 && this.clock() > expireAt) {
                   // Lazy Delete
                   raw[storedOffset] = FLAG_DELETED;
                   offsets[index] = -storedOffset;
+                  this.markDeleted(index, storedOffset);
                   this._deletedCount++;
                   this._size--;
                   this.checkCompaction();
-                  this.emit("expire", key);
+                  this.expired(key);
                   return undefined;
                 }
 
@@ -1204,17 +2353,11 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
                 // Read Val
                 // Use Zero-Copy decoding if possible
                 const val = this.valueCodec.decode(raw, vCursor, valLen);
+                if (this.eviction) this.eviction.touched(index);
+                if (this.slidingTTLs) this.slide(index);
 
                 // Update Cache
                 if (this.cache) {
-                  if (this.cache.size >= this.cacheSize) {
-                    const oldestKey = this.cache.keys().next().value;
-                    if (oldestKey !== undefined) {
-                      const evictedVal = this.cache.get(oldestKey);
-                      this.cache.delete(oldestKey);
-                      this.emit("evict", oldestKey, evictedVal);
-                    }
-                  }
                   this.cache.set(key, val);
                 }
                 return val;
@@ -1245,28 +2388,22 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
             const high = this.buffer.readUInt32LE(storedOffset + 9);
             const expireAt = high * 0x100000000 + low;
 
-            if (expireAt > 0 && Date.now() > expireAt) {
+            if (expireAt > 0 && this.clock() > expireAt) {
               this.buffer.writeUInt8(FLAG_DELETED, storedOffset);
               offsets[index] = -storedOffset;
+              this.markDeleted(index, storedOffset);
               this._deletedCount++;
               this._size--;
               this.checkCompaction();
-              this.emit("expire", key);
+              this.expired(key);
               return undefined;
             }
 
             const val = this.readValue(storedOffset);
+            if (this.eviction) this.eviction.touched(index);
+            if (this.slidingTTLs) this.slide(index);
             // Update Cache
             if (this.cache) {
-              if (this.cache.size >= this.cacheSize) {
-                // Evict oldest (first key)
-                const oldestKey = this.cache.keys().next().value;
-                if (oldestKey !== undefined) {
-                  const evictedVal = this.cache.get(oldestKey);
-                  this.cache.delete(oldestKey);
-                  this.emit("evict", oldestKey, evictedVal);
-                }
-              }
               this.cache.set(key, val);
             }
             return val;
@@ -1279,6 +2416,233 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     }
   }
 
+  /**
+   * Returns the value for the key, calling `loader` to fetch and store it on a miss.
+   * Concurrent calls for the same key share a single load.
+   *
+   * With `staleWhileRevalidate`/`staleIfError`, entries are kept past their TTL
+   * (get() still returns them until both windows have passed) so stale values
+   * can be served while refreshing in the background, or when the loader fails.
+   *
+   * Emits "load" for misses, "refresh" for reloads of stale entries and
+   * "loadError" when the loader throws.
+   *
+   * @param key The key of the element to return.
+   * @param loader Fetches the value, e.g. from a database.
+   * @param options TTL and stale windows for the loaded value.
+   */
+  async getOrLoad(
+    key: K,
+    loader: Loader<K, V>,
+    options: LoadOptions = {},
+  ): Promise<V> {
+    const ttl = options.ttl !== undefined ? options.ttl : this.defaultTTL;
+    const swr = options.staleWhileRevalidate || 0;
+    const sie = options.staleIfError || 0;
+    // Entries are stored with expireAt = stale deadline + grace
+    const grace = ttl > 0 ? Math.max(swr, sie) : 0;
+
+    const index = this.findIndex(key, this.hasher(key) | 0);
+    if (index === -1) {
+      return this.load(key, loader, ttl + grace, "load");
+    }
+
+    const offset = this._offsets[index];
+    const expireAt = this.readExpireAt(offset);
+    const now = this.clock();
+    if (expireAt === 0 || now <= expireAt - grace) {
+      const value = this.get(key);
+      if (value !== undefined) return value;
+    } else if (now <= expireAt) {
+      const staleAt = expireAt - grace;
+      const stale = this.readValue(offset);
+      if (now <= staleAt + swr) {
+        // Errors are reported through "loadError"
+        this.load(key, loader, ttl + grace, "refresh").catch(() => {});
+        return stale;
+      }
+      try {
+        return await this.load(key, loader, ttl + grace, "refresh");
+      } catch (e) {
+        if (now <= staleAt + sie) return stale;
+        throw e;
+      }
+    }
+    return this.load(key, loader, ttl + grace, "load");
+  }
+
+  // Runs one load per key at a time and stores its result
+  private load(
+    key: K,
+    loader: Loader<K, V>,
+    ttl: number,
+    event: "load" | "refresh",
+  ): Promise<V> {
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = Promise.resolve()
+        .then(() => loader(key))
+        .then(
+          (value) => {
+            this.set(key, value, { ttl });
+            this.emit(event, key, value);
+            return value;
+          },
+          (e) => {
+            this.emit("loadError", key, e);
+            throw e;
+          },
+        )
+        .finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Returns the remaining time to live of the key in milliseconds,
+   * -1 if it never expires or -2 if it does not exist (like Redis PTTL).
+   */
+  getTTL(key: K): number {
+    const expireAt = this.getExpireAt(key);
+    return expireAt < 0 ? expireAt : Math.max(0, expireAt - this.clock());
+  }
+
+  /**
+   * Returns the expiry of the key as a Unix timestamp in milliseconds,
+   * -1 if it never expires or -2 if it does not exist (like Redis PEXPIRETIME).
+   */
+  getExpireAt(key: K): number {
+    const index = this.findLive(key);
+    if (index === -1) return -2;
+    const expireAt = this.readExpireAt(this._offsets[index]);
+    return expireAt === 0 ? -1 : expireAt;
+  }
+
+  /**
+   * Sets the key to expire after `ttl` milliseconds, without rewriting its value.
+   * A ttl of 0 or less deletes the key.
+   * Returns false if the key does not exist.
+   */
+  expire(key: K, ttl: number): boolean {
+    return this.expireAt(key, this.clock() + ttl);
+  }
+
+  /**
+   * Sets the key to expire at a Unix timestamp in milliseconds, without rewriting its value.
+   * A timestamp in the past deletes the key.
+   * Returns false if the key does not exist.
+   */
+  expireAt(key: K, timestamp: number): boolean {
+    const index = this.findLive(key);
+    if (index === -1) return false;
+    if (timestamp <= this.clock()) {
+      this.delete(key);
+      return true;
+    }
+    this.updateExpireAt(index, key, timestamp);
+    return true;
+  }
+
+  /**
+   * Removes the expiry of the key.
+   * Returns false if the key does not exist or has no expiry.
+   */
+  persist(key: K): boolean {
+    const index = this.findLive(key);
+    if (index === -1 || this.readExpireAt(this._offsets[index]) === 0) {
+      return false;
+    }
+    this.updateExpireAt(index, key, 0);
+    return true;
+  }
+
+  /**
+   * Marks the key as used: it counts as an access for LRU/LFU eviction and,
+   * if the key expires, its expiry restarts from now (e.g. to extend a session).
+   * Returns false if the key does not exist.
+   *
+   * @param key The key to touch.
+   * @param ttl New time to live in milliseconds. Defaults to the map's TTL
+   * (without one, the expiry is left unchanged).
+   */
+  touch(key: K, ttl?: number): boolean {
+    const index = this.findLive(key);
+    if (index === -1) return false;
+    if (this.eviction) this.eviction.touched(index);
+    const window = this.slidingTTLs ? this.slidingTTLs[index] : 0;
+    if (ttl === undefined) ttl = window || this.defaultTTL;
+    if (ttl > 0 && this.readExpireAt(this._offsets[index]) > 0) {
+      // A sliding entry keeps sliding with the new TTL
+      this.updateExpireAt(index, key, this.clock() + ttl, window > 0 ? ttl : 0);
+    }
+    return true;
+  }
+
+  // Bucket index of the key if present and not expired, else -1
+  private findLive(key: K): number {
+    const index = this.findIndex(key, this.hasher(key) | 0);
+    if (index === -1) return -1;
+    const expireAt = this.readExpireAt(this._offsets[index]);
+    if (expireAt > 0 && this.clock() > expireAt) {
+      this.missSlot = -1; // The expired entry is replaced by put()
+      return -1;
+    }
+    return index;
+  }
+
+  // Captures missSlot before a callback runs. The returned function gives
+  // it back if the map gained no entries and kept its table meanwhile,
+  // so the bucket is still free and still on the key's probe path.
+  private freeSlot(): () => number {
+    const slot = this.missSlot;
+    const table = this._offsets;
+    const writeOffset = this.writeOffset;
+    return () =>
+      this._offsets === table && this.writeOffset === writeOffset ? slot : -1;
+  }
+
+  // Sets a new expiry and sliding window (0: a sliding entry stops sliding)
+  private updateExpireAt(
+    index: number,
+    key: K,
+    expireAt: number,
+    window: number = 0,
+  ): void {
+    this.setWindow(index, window);
+    this.writeExpireAt(index, expireAt);
+    if (this.walPath) {
+      this.walAppend(encodeExpireRecord(this.encodeKey(key), expireAt, window));
+    }
+  }
+
+  // Sets the sliding TTL of bucket `index` (0 = fixed expiry). The window
+  // table is saved alongside the bucket table, in blocks of the same slots.
+  private setWindow(index: number, window: number): void {
+    if (!this.slidingTTLs) {
+      if (window === 0) return;
+      this.slidingTTLs = new Float64Array(this.capacity);
+      this.invalidateSnapshot(); // The file gains a window table
+    }
+    this.slidingTTLs[index] = window;
+    this.markBucket(index);
+  }
+
+  // Restarts the TTL of a sliding entry after a read.
+  // Not logged to the WAL: a replayed entry may expire one TTL after its last write.
+  private slide(index: number): void {
+    const ttl = this.slidingTTLs![index];
+    if (ttl > 0) this.writeExpireAt(index, this.clock() + ttl);
+  }
+
+  // Rewrites the expiry in the entry header in place (the value is not touched)
+  private writeExpireAt(index: number, expireAt: number): void {
+    const offset = this._offsets[index];
+    this.buffer.writeUInt32LE(expireAt % 0x100000000, offset + 5);
+    this.buffer.writeUInt32LE(Math.floor(expireAt / 0x100000000), offset + 9);
+    this.markData(offset + 5, TTL_SIZE);
+  }
+
   /**
    * Returns a boolean asserting whether a value has been associated to the key in the RogueMap object or not.
    *
@@ -1372,16 +2736,18 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
                   (raw[eCursor + 7] << 24);
                 const expireAt = high * 0x100000000 + low;
 
-                if (expireAt > 0 && Date.now() > expireAt) {
+                if (expireAt > 0 && this.clock() > expireAt) {
                   // Lazy Delete
                   raw[storedOffset] = FLAG_DELETED;
                   offsets[index] = -storedOffset;
+                  this.markDeleted(index, storedOffset);
                   this._deletedCount++;
                   this._size--;
                   this.checkCompaction();
-                  this.emit("expire", key);
+                  this.expired(key);
                   return false;
                 }
+                if (this.slidingTTLs) this.slide(index);
                 return true;
               }
             }
@@ -1410,15 +2776,17 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
             const high = this.buffer.readUInt32LE(storedOffset + 9);
             const expireAt = high * 0x100000000 + low;
 
-            if (expireAt > 0 && Date.now() > expireAt) {
+            if (expireAt > 0 && this.clock() > expireAt) {
               this.buffer.writeUInt8(FLAG_DELETED, storedOffset);
               offsets[index] = -storedOffset;
+              this.markDeleted(index, storedOffset);
               this._deletedCount++;
               this._size--;
               this.checkCompaction();
-              this.emit("expire", key);
+              this.expired(key);
               return false;
             }
+            if (this.slidingTTLs) this.slide(index);
             return true;
           }
         }
@@ -1526,23 +2894,26 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
                   (raw[eCursor + 7] << 24);
                 const expireAt = high * 0x100000000 + low;
 
-                if (expireAt > 0 && Date.now() > expireAt) {
+                if (expireAt > 0 && this.clock() > expireAt) {
                   // Lazy Delete (return false as if not found)
                   raw[storedOffset] = FLAG_DELETED;
                   offsets[index] = -storedOffset;
+                  this.markDeleted(index, storedOffset);
                   this._deletedCount++;
                   this._size--;
                   this.checkCompaction();
-                  this.emit("expire", key);
+                  this.expired(key);
                   return false;
                 }
 
                 // MATCH! DELETE INLINE
                 raw[storedOffset] = FLAG_DELETED;
                 offsets[index] = -storedOffset; // Mark deleted
+                this.markDeleted(index, storedOffset);
                 this._size--;
                 this._deletedCount++;
                 this.checkCompaction();
+                this.walDelete(key);
                 this.emit("delete", key);
                 return true;
               }
@@ -1572,21 +2943,24 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
             const high = this.buffer.readUInt32LE(storedOffset + 9);
             const expireAt = high * 0x100000000 + low;
 
-            if (expireAt > 0 && Date.now() > expireAt) {
+            if (expireAt > 0 && this.clock() > expireAt) {
               this.buffer.writeUInt8(FLAG_DELETED, storedOffset);
               offsets[index] = -storedOffset;
+              this.markDeleted(index, storedOffset);
               this._deletedCount++;
               this._size--;
               this.checkCompaction();
-              this.emit("expire", key);
+              this.expired(key);
               return false;
             }
 
             this.buffer.writeUInt8(FLAG_DELETED, storedOffset);
             offsets[index] = -storedOffset; // Update state
+            this.markDeleted(index, storedOffset);
             this._size--;
             this._deletedCount++;
             this.checkCompaction();
+            this.walDelete(key);
             this.emit("delete", key);
             return true;
           }
@@ -1602,15 +2976,72 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
    * Removes all elements from the RogueMap object.
    */
   clear(): void {
+    this.reset();
+    if (this.walPath) {
+      this.walAppend(encodeClearRecord());
+    }
+    this.emit("clear");
+  }
+
+  private reset(): void {
     if (this.cache) {
       this.cache.clear();
     }
     this._hashes.fill(0);
     this._offsets.fill(0);
+    if (this.snapshots > 0) {
+      // A streaming save still reads the old data region
+      this.buffer = PagedBuffer.allocUnsafe(this.buffer.length);
+      this.rawBuffer = this.buffer.getSinglePage();
+      this.watchViews();
+    }
     this.writeOffset = 1;
     this._size = 0;
     this._deletedCount = 0;
-    this.emit("clear");
+    if (this.eviction) {
+      this.eviction.reset(this.capacity);
+    }
+    this.slidingTTLs = null;
+    this.invalidateSnapshot();
+  }
+
+  // Generic probe for an active entry (no expiration check).
+  // Returns the bucket index or -1 if the key is not present, leaving the
+  // bucket put() would insert it into in missSlot.
+  private findIndex(key: K, hash: number): number {
+    const keyLen = this.keyCodec.byteLength(key);
+    if (this.tempKeyBuffer.length < keyLen) {
+      this.tempKeyBuffer = Buffer.allocUnsafe(
+        Math.max(keyLen, this.tempKeyBuffer.length * 2),
+      );
+    }
+    this.keyCodec.encode(key, this.tempKeyBuffer, 0);
+
+    const mask = this.capacityMask;
+    let index = Math.abs(hash) & mask;
+    const start_index = index;
+    let tombstoneIndex = -1;
+
+    while (true) {
+      const storedOffset = this._offsets[index];
+      if (storedOffset === 0) {
+        this.missSlot = tombstoneIndex !== -1 ? tombstoneIndex : index;
+        return -1;
+      }
+      if (storedOffset < 0) {
+        if (tombstoneIndex === -1) tombstoneIndex = index;
+      } else if (
+        this._hashes[index] === hash &&
+        this.keyMatchesPreEncoded(storedOffset, keyLen)
+      ) {
+        return index;
+      }
+      index = (index + 1) & mask;
+      if (index === start_index) {
+        this.missSlot = tombstoneIndex;
+        return -1;
+      }
+    }
   }
 
   private writeEntry(
@@ -1671,17 +3102,25 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     // Write Key
     // Use temp buffer to ensure compatibility with Codec interfaces that expect Buffer
     if (keySize > 0) {
-      const keyBuf = Buffer.allocUnsafe(keySize);
-      this.keyCodec.encode(key, keyBuf, 0);
-      this.buffer.writeBuffer(keyBuf, cursor);
+      if (this.rawBuffer) {
+        this.keyCodec.encode(key, this.rawBuffer, cursor);
+      } else {
+        const keyBuf = Buffer.allocUnsafe(keySize);
+        this.keyCodec.encode(key, keyBuf, 0);
+        this.buffer.writeBuffer(keyBuf, cursor);
+      }
       cursor += keySize;
     }
 
     // Write Val
     if (valSize > 0) {
-      const valBuf = Buffer.allocUnsafe(valSize);
-      this.valueCodec.encode(value, valBuf, 0);
-      this.buffer.writeBuffer(valBuf, cursor);
+      if (this.rawBuffer) {
+        this.valueCodec.encode(value, this.rawBuffer, cursor);
+      } else {
+        const valBuf = Buffer.allocUnsafe(valSize);
+        this.valueCodec.encode(value, valBuf, 0);
+        this.buffer.writeBuffer(valBuf, cursor);
+      }
       cursor += valSize;
     }
 
@@ -1690,6 +3129,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
     this._hashes[index] = hash;
     this._offsets[index] = offset; // Active
+    this.markBucket(index);
   }
 
   private keyMatchesPreEncoded(offset: number, keyLen: number): boolean {
@@ -1762,6 +3202,46 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     return this.buffer.compare(temp, 0, len, cursor, cursor + keySize) === 0;
   }
 
+  // Expiry timestamp of the entry at `offset` (0 = never expires)
+  private readExpireAt(offset: number): number {
+    const low = this.buffer.readUInt32LE(offset + 5);
+    const high = this.buffer.readUInt32LE(offset + 9);
+    return high * 0x100000000 + low;
+  }
+
+  private readKey(offset: number): K {
+    let cursor = offset + 5 + 8; // Skip Flag(1) + Hash(4) + ExpireAt(8)
+    let keySize: number;
+    if (this.keyCodec.fixedLength !== undefined) {
+      keySize = this.keyCodec.fixedLength;
+    } else {
+      keySize = this.buffer.readInt32LE(cursor);
+      cursor += 4;
+    }
+    if (this.valueCodec.fixedLength === undefined) cursor += 4;
+
+    const keyBuf = this.buffer.readBuffer(cursor, keySize);
+    return this.keyCodec.decode(keyBuf, 0, keySize);
+  }
+
+  // Total bytes of the entry at `offset`, header included
+  private entryLength(offset: number): number {
+    let cursor = offset + 5 + 8;
+    let length = 5 + 8;
+    if (this.keyCodec.fixedLength !== undefined) {
+      length += this.keyCodec.fixedLength;
+    } else {
+      length += 4 + this.buffer.readInt32LE(cursor);
+      cursor += 4;
+    }
+    if (this.valueCodec.fixedLength !== undefined) {
+      length += this.valueCodec.fixedLength;
+    } else {
+      length += 4 + this.buffer.readInt32LE(cursor);
+    }
+    return length;
+  }
+
   private readValue(offset: number): V {
     let cursor = offset + 5 + 8; // Skip Flag(1) + Hash(4) + ExpireAt(8)
 
@@ -1829,6 +3309,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
       while (cursor < limit) {
         const flag = raw[cursor]; // raw.readUInt8(cursor)
+        if (flag === 0) {
+          cursor++; // Padding after a value shortened in place, see overwrite()
+          continue;
+        }
 
         let entryLen = 5 + 8; // V2 Header
         let keySize: number, valSize: number;
@@ -1876,7 +3360,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
             (raw[cursor + 12] << 24);
           const expireAt = high * 0x100000000 + low; // 0x100000000 is 2^32
 
-          if (expireAt === 0 || Date.now() <= expireAt) {
+          if (expireAt === 0 || this.clock() <= expireAt) {
             const keyStart = cursor + 5 + 8 + kLenSize + vLenSize;
             // Use zero-copy view if codec supports it
             const key = this.keyCodec.decode(raw, keyStart, keySize);
@@ -1897,6 +3381,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     let cursor = 1;
     while (cursor < this.writeOffset) {
       const flag = this.buffer.readUInt8(cursor);
+      if (flag === 0) {
+        cursor++; // Padding after a value shortened in place, see overwrite()
+        continue;
+      }
 
       // Layout: [Flag(1)] [Hash(4)] [ExpireAt(8)] [KeyLen(4)?] [ValLen(4)?] [Key] [Val]
       let entryLen = 5 + 8;
@@ -1926,7 +3414,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         const high = this.buffer.readUInt32LE(cursor + 9);
         const expireAt = high * 0x100000000 + low;
 
-        if (expireAt === 0 || Date.now() <= expireAt) {
+        if (expireAt === 0 || this.clock() <= expireAt) {
           const keyStart = cursor + 5 + 8 + kLenSize + vLenSize;
           const keyBuf = this.buffer.readBuffer(keyStart, keySize);
           const key = this.keyCodec.decode(keyBuf, 0, keySize);
@@ -1957,6 +3445,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
       while (cursor < limit) {
         const flag = raw[cursor];
+        if (flag === 0) {
+          cursor++; // Padding after a value shortened in place, see overwrite()
+          continue;
+        }
 
         let entryLen = 5 + 8; // V2 Header
         let keySize: number, valSize: number;
@@ -2002,7 +3494,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
             (raw[cursor + 12] << 24);
           const expireAt = high * 0x100000000 + low;
 
-          if (expireAt === 0 || Date.now() <= expireAt) {
+          if (expireAt === 0 || this.clock() <= expireAt) {
             const keyStart = cursor + 5 + 8 + kLenSize + vLenSize;
             // LAZY DECODING: Only decode key
             const key = this.keyCodec.decode(raw, keyStart, keySize);
@@ -2019,6 +3511,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     let cursor = 1;
     while (cursor < this.writeOffset) {
       const flag = this.buffer.readUInt8(cursor);
+      if (flag === 0) {
+        cursor++; // Padding after a value shortened in place, see overwrite()
+        continue;
+      }
       let entryLen = 5 + 8; // V2 Header
       let keySize: number, valSize: number;
       let kLenSize = 0,
@@ -2046,7 +3542,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         const high = this.buffer.readUInt32LE(cursor + 9);
         const expireAt = high * 0x100000000 + low;
 
-        if (expireAt === 0 || Date.now() <= expireAt) {
+        if (expireAt === 0 || this.clock() <= expireAt) {
           const keyStart = cursor + 5 + 8 + kLenSize + vLenSize;
           const keyBuf = this.buffer.readBuffer(keyStart, keySize);
           const key = this.keyCodec.decode(keyBuf, 0, keySize);
@@ -2072,6 +3568,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
 
       while (cursor < limit) {
         const flag = raw[cursor];
+        if (flag === 0) {
+          cursor++; // Padding after a value shortened in place, see overwrite()
+          continue;
+        }
 
         let entryLen = 5 + 8; // V2 Header
         let keySize: number, valSize: number;
@@ -2117,7 +3617,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
             (raw[cursor + 12] << 24);
           const expireAt = high * 0x100000000 + low;
 
-          if (expireAt === 0 || Date.now() <= expireAt) {
+          if (expireAt === 0 || this.clock() <= expireAt) {
             // LAZY DECODING: Only decode value
             const keyStart = cursor + 5 + 8 + kLenSize + vLenSize;
             const valStart = keyStart + keySize;
@@ -2135,6 +3635,10 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
     let cursor = 1;
     while (cursor < this.writeOffset) {
       const flag = this.buffer.readUInt8(cursor);
+      if (flag === 0) {
+        cursor++; // Padding after a value shortened in place, see overwrite()
+        continue;
+      }
       let entryLen = 5 + 8; // V2 Header
       let keySize: number, valSize: number;
       let kLenSize = 0,
@@ -2162,7 +3666,7 @@ export class RogueMap<K = any, V = any> extends EventEmitter {
         const high = this.buffer.readUInt32LE(cursor + 9);
         const expireAt = high * 0x100000000 + low;
 
-        if (expireAt === 0 || Date.now() <= expireAt) {
+        if (expireAt === 0 || this.clock() <= expireAt) {
           const keyStart = cursor + 5 + 8 + kLenSize + vLenSize;
           const valStart = keyStart + keySize;
           const valBuf = this.buffer.readBuffer(valStart, valSize);
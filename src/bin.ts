@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+import { main } from "./cli";
+
+// Stop quietly when piped into e.g. `head`
+process.stdout.on("error", (e: NodeJS.ErrnoException) => {
+  if (e.code === "EPIPE") process.exit(0);
+  throw e;
+});
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,282 @@
+/**
+ * Admission/eviction policy of the hot-value cache (see `cacheSize`).
+ *
+ * - `lru`: every read and write is cached, the least recently used value is dropped
+ * - `tinylfu`: W-TinyLFU. New values pass a small LRU window, then only enter
+ *   the main cache if they are used more often than what they would replace,
+ *   so one-off reads and writes (scans) cannot flush frequently used values.
+ */
+export type CachePolicy = "lru" | "tinylfu";
+
+/**
+ * JS-heap cache of decoded values kept in front of the off-heap store.
+ */
+export interface HotCache<K, V> {
+  readonly size: number;
+  /**
+   * Returns the cached value and records the access.
+   */
+  get(key: K): V | undefined;
+  /**
+   * Caches a value that was just read or written (not counted as an access).
+   */
+  set(key: K, value: V): void;
+  delete(key: K): void;
+  clear(): void;
+}
+
+type EvictListener<K, V> = (key: K, value: V) => void;
+
+export function createCache<K, V>(
+  policy: CachePolicy,
+  capacity: number,
+  hasher: (key: K) => number,
+  onEvict: EvictListener<K, V>,
+): HotCache<K, V> {
+  switch (policy) {
+    case "lru":
+      return new LruCache(capacity, onEvict);
+    case "tinylfu":
+      return new TinyLfuCache(capacity, hasher, onEvict);
+    default:
+      throw new Error(`RogueMap: Unknown cache policy: ${policy}`);
+  }
+}
+
+/**
+ * Plain LRU on top of Map insertion order.
+ */
+class LruCache<K, V> implements HotCache<K, V> {
+  private map = new Map<K, V>();
+
+  constructor(
+    private capacity: number,
+    private onEvict: EvictListener<K, V>,
+  ) {}
+
+  get size(): number {
+    return this.map.size;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.map.get(key);
+    if (value !== undefined) {
+      // Refresh (delete and re-add)
+      this.map.delete(key);
+      this.map.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    if (this.map.has(key)) {
+      this.map.delete(key);
+    } else if (this.map.size >= this.capacity) {
+      evictOldest(this.map, this.onEvict);
+    }
+    this.map.set(key, value);
+  }
+
+  delete(key: K): void {
+    this.map.delete(key);
+  }
+
+  clear(): void {
+    this.map.clear();
+  }
+}
+
+const WINDOW_RATIO = 0.01; // Share of the capacity used by the admission window
+const PROTECTED_RATIO = 0.8; // Share of the main segment for values hit twice
+
+/**
+ * W-TinyLFU (Einziger, Friedman & Manes), as used by Caffeine.
+ *
+ * [window LRU] --evicted--> admission filter --> [probation | protected] (SLRU)
+ *
+ * A value evicted from the window is only admitted if the frequency sketch
+ * has seen it more often than the main segment's eviction victim.
+ */
+class TinyLfuCache<K, V> implements HotCache<K, V> {
+  // Each segment is a Map kept in LRU order (oldest first)
+  private window = new Map<K, V>();
+  private probation = new Map<K, V>();
+  private hot = new Map<K, V>(); // Protected segment: hit at least twice
+  private windowMax: number;
+  private mainMax: number;
+  private hotMax: number;
+  private sketch: FrequencySketch;
+
+  constructor(
+    capacity: number,
+    private hasher: (key: K) => number,
+    private onEvict: EvictListener<K, V>,
+  ) {
+    this.windowMax = Math.max(1, Math.round(capacity * WINDOW_RATIO));
+    this.mainMax = Math.max(0, capacity - this.windowMax);
+    this.hotMax = Math.floor(this.mainMax * PROTECTED_RATIO);
+    this.sketch = new FrequencySketch(capacity);
+  }
+
+  get size(): number {
+    return this.window.size + this.probation.size + this.hot.size;
+  }
+
+  get(key: K): V | undefined {
+    this.sketch.increment(this.hasher(key));
+    return this.touch(key);
+  }
+
+  // Only reads are counted: a read miss already went through get()
+  set(key: K, value: V): void {
+    if (this.touch(key) !== undefined) {
+      // touch() moved it to the end of its segment
+      if (this.window.has(key)) this.window.set(key, value);
+      else if (this.hot.has(key)) this.hot.set(key, value);
+      else this.probation.set(key, value);
+      return;
+    }
+
+    this.window.set(key, value);
+    if (this.window.size > this.windowMax) {
+      const candidate = this.window.keys().next().value as K;
+      const candidateValue = this.window.get(candidate) as V;
+      this.window.delete(candidate);
+      this.admit(candidate, candidateValue);
+    }
+  }
+
+  delete(key: K): void {
+    if (!this.window.delete(key) && !this.probation.delete(key)) {
+      this.hot.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.hot.clear();
+  }
+
+  // Moves a cached key to the most recent position of its segment,
+  // promoting probation hits to the protected segment.
+  private touch(key: K): V | undefined {
+    let value = this.window.get(key);
+    if (value !== undefined) {
+      this.window.delete(key);
+      this.window.set(key, value);
+      return value;
+    }
+
+    value = this.hot.get(key);
+    if (value !== undefined) {
+      this.hot.delete(key);
+      this.hot.set(key, value);
+      return value;
+    }
+
+    value = this.probation.get(key);
+    if (value !== undefined) {
+      this.probation.delete(key);
+      this.hot.set(key, value);
+      if (this.hot.size > this.hotMax) {
+        // Demote the oldest protected value back to probation
+        const demoted = this.hot.keys().next().value as K;
+        this.probation.set(demoted, this.hot.get(demoted) as V);
+        this.hot.delete(demoted);
+      }
+    }
+    return value;
+  }
+
+  private admit(candidate: K, value: V): void {
+    if (this.probation.size + this.hot.size < this.mainMax) {
+      this.probation.set(candidate, value);
+      return;
+    }
+
+    const segment = this.probation.size > 0 ? this.probation : this.hot;
+    const victim = segment.keys().next().value;
+    if (victim === undefined) {
+      this.onEvict(candidate, value); // No main segment (capacity 1)
+      return;
+    }
+
+    const candidateFreq = this.sketch.frequency(this.hasher(candidate));
+    const victimFreq = this.sketch.frequency(this.hasher(victim));
+    if (candidateFreq > victimFreq) {
+      evictOldest(segment, this.onEvict);
+      this.probation.set(candidate, value);
+    } else {
+      this.onEvict(candidate, value);
+    }
+  }
+}
+
+function evictOldest<K, V>(map: Map<K, V>, onEvict: EvictListener<K, V>) {
+  const oldestKey = map.keys().next().value;
+  if (oldestKey !== undefined) {
+    const evictedVal = map.get(oldestKey) as V;
+    map.delete(oldestKey);
+    onEvict(oldestKey, evictedVal);
+  }
+}
+
+const SKETCH_DEPTH = 4;
+const SKETCH_SEEDS = [0x97cb3127, 0x0a1d3f6b, 0x5bd1e995, 0x2c1b3c6d];
+const SKETCH_MAX_COUNT = 15;
+
+/**
+ * Count-min sketch of recent key frequencies (4 rows of saturating counters).
+ * All counters are halved every 10 x capacity increments, so old popularity fades.
+ */
+class FrequencySketch {
+  private counters: Uint8Array;
+  private mask: number;
+  private additions = 0;
+  private sampleSize: number;
+
+  constructor(capacity: number) {
+    let width = 16;
+    while (width < capacity) width *= 2;
+    this.mask = width - 1;
+    this.counters = new Uint8Array(width * SKETCH_DEPTH);
+    this.sampleSize = 10 * Math.max(capacity, 1);
+  }
+
+  increment(hash: number): void {
+    let added = false;
+    for (let row = 0; row < SKETCH_DEPTH; row++) {
+      const index = this.index(hash, row);
+      if (this.counters[index] < SKETCH_MAX_COUNT) {
+        this.counters[index]++;
+        added = true;
+      }
+    }
+    if (added && ++this.additions >= this.sampleSize) {
+      this.halve();
+    }
+  }
+
+  frequency(hash: number): number {
+    let min = SKETCH_MAX_COUNT;
+    for (let row = 0; row < SKETCH_DEPTH; row++) {
+      min = Math.min(min, this.counters[this.index(hash, row)]);
+    }
+    return min;
+  }
+
+  private index(hash: number, row: number): number {
+    let h = Math.imul(hash ^ SKETCH_SEEDS[row], 0x9e3779b1);
+    h ^= h >>> 15;
+    return row * (this.mask + 1) + (h & this.mask);
+  }
+
+  private halve(): void {
+    const counters = this.counters;
+    for (let i = 0; i < counters.length; i++) {
+      counters[i] >>= 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+}
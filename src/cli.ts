@@ -0,0 +1,324 @@
+import * as fs from "fs";
+import { parseArgs } from "util";
+import { Buffer } from "./internal/buffer";
+import { Codec } from "./interfaces";
+import { codecFromId, codecInfo } from "./codecs";
+import { RogueMapCorruptionError } from "./errors";
+import { CodecInfo, SnapshotMeta } from "./format";
+import { FileSystemAdapter } from "./persistence/fs";
+import { CompressedAdapter } from "./persistence/compression";
+import { CompressionAlgorithm } from "./persistence/interfaces";
+import {
+  builtinCodec,
+  entryLayout,
+  fileCompression,
+  isCompressedFile,
+  liveEntries,
+  loadSnapshotFile,
+  rebuildSnapshot,
+  salvageSnapshot,
+  snapshotStats,
+  verifySnapshot,
+} from "./inspect";
+
+const USAGE = `Usage: rogue-map <command> <file> [options]
+
+Commands:
+  info <file>                  Print the header and space usage
+  verify <file>                Check checksums, flags, lengths and bucket targets
+  dump <file> [--format jsonl] Print every live entry, one JSON object per line
+  compact <file> [--out path]  Rewrite the file without deleted or expired entries
+  repair <file> [--out path]   Salvage readable entries into a new file
+                               (default: <file>.repaired)
+
+Options:
+  --key-codec <id>    Key codec of files without codec metadata (default: any)
+  --value-codec <id>  Value codec of files without codec metadata (default: any)
+`;
+
+/**
+ * Where the CLI writes its output (overridable for tests).
+ */
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const processIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+interface CliOptions {
+  format?: string;
+  out?: string;
+  "key-codec"?: string;
+  "value-codec"?: string;
+}
+
+/**
+ * Runs the rogue-map CLI.
+ * Returns the exit code: 0 on success, 1 if the file is damaged, 2 on usage errors.
+ *
+ * @param argv Arguments after the executable, e.g. ["info", "data.db"].
+ */
+export async function main(
+  argv: string[],
+  io: CliIO = processIO,
+): Promise<number> {
+  let command: string | undefined;
+  let file: string | undefined;
+  let options: CliOptions;
+  try {
+    const parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: "string" },
+        out: { type: "string" },
+        "key-codec": { type: "string" },
+        "value-codec": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+    if (parsed.values.help) {
+      io.stdout(USAGE);
+      return 0;
+    }
+    [command, file] = parsed.positionals;
+    options = parsed.values;
+  } catch (e: any) {
+    io.stderr(`${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (!command || !file) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  try {
+    const fallback = fallbackMeta(options);
+    switch (command) {
+      case "info":
+        return await info(file, fallback, io);
+      case "verify":
+        return await verify(file, fallback, io);
+      case "dump":
+        if ((options.format ?? "jsonl") !== "jsonl") {
+          io.stderr(`Unsupported dump format: ${options.format}\n`);
+          return 2;
+        }
+        return await dump(file, fallback, io);
+      case "compact":
+        return await compact(file, options.out ?? file, fallback, io);
+      case "repair":
+        return await repair(
+          file,
+          options.out ?? `${file}.repaired`,
+          fallback,
+          io,
+        );
+      default:
+        io.stderr(`Unknown command: ${command}\n\n${USAGE}`);
+        return 2;
+    }
+  } catch (e: any) {
+    io.stderr(`${e.message}\n`);
+    if (e instanceof RogueMapCorruptionError) {
+      io.stderr(
+        `Run "rogue-map repair ${file}" to salvage the readable entries.\n`,
+      );
+      return 1;
+    }
+    return e.code === "ENOENT" ? 2 : 1;
+  }
+}
+
+async function info(file: string, fallback: SnapshotMeta, io: CliIO) {
+  const snapshot = await loadSnapshotFile(file);
+  const { header } = snapshot;
+  const meta = header.meta ?? fallback;
+  const stats = snapshotStats(snapshot, entryLayout(meta));
+
+  const rows: [string, string | number][] = [
+    ["file", file],
+    ["format version", header.version],
+    ["compressed", isCompressedFile(file) ? "yes" : "no"],
+    ["capacity", header.capacity],
+    ["size", header.size],
+    ["tombstones", stats.tombstones],
+    ["expired", stats.expired],
+    ["data bytes", stats.dataBytes],
+    ["live bytes", stats.liveBytes],
+    ["fragmentation", `${(stats.fragmentation * 100).toFixed(1)}%`],
+    ["key codec", describeCodec(meta.key, !header.meta)],
+    ["value codec", describeCodec(meta.value, !header.meta)],
+  ];
+  if (header.blockSize !== undefined) {
+    rows.push(["block size", header.blockSize]);
+  }
+  if (fs.existsSync(`${file}.journal`)) {
+    rows.push(["journal", "pending (replayed on next load)"]);
+  }
+
+  for (const [name, value] of rows) {
+    io.stdout(`${`${name}:`.padEnd(16)}${value}\n`);
+  }
+  return 0;
+}
+
+async function verify(file: string, fallback: SnapshotMeta, io: CliIO) {
+  const snapshot = await loadSnapshotFile(file);
+  const meta = snapshot.header.meta ?? fallback;
+  const problems = verifySnapshot(snapshot, entryLayout(meta), {
+    key: builtinCodec(meta.key),
+    value: builtinCodec(meta.value),
+  });
+
+  if (problems.length > 0) {
+    for (const problem of problems) io.stdout(`${problem}\n`);
+    io.stdout(`${file}: ${problems.length} problem(s) found\n`);
+    return 1;
+  }
+  io.stdout(`${file}: OK (${snapshot.header.size} entries)\n`);
+  return 0;
+}
+
+async function dump(file: string, fallback: SnapshotMeta, io: CliIO) {
+  const snapshot = await loadSnapshotFile(file);
+  const meta = snapshot.header.meta ?? fallback;
+  const keyCodec = builtinCodec(meta.key);
+  const valueCodec = builtinCodec(meta.value);
+  if (!keyCodec || !valueCodec) {
+    io.stderr("Custom codec: raw bytes are printed as base64\n");
+  }
+
+  const decode = (codec: Codec<any> | undefined, data: Buffer) =>
+    codec ? codec.decode(data, 0, data.length) : Buffer.from(data);
+  for (const entry of liveEntries(snapshot, entryLayout(meta))) {
+    const record: Record<string, unknown> = {
+      key: decode(keyCodec, entry.key),
+      value: decode(valueCodec, entry.value),
+    };
+    if (entry.expireAt > 0) record.expireAt = entry.expireAt;
+    io.stdout(`${JSON.stringify(record, jsonReplacer)}\n`);
+  }
+  return 0;
+}
+
+async function compact(
+  file: string,
+  out: string,
+  fallback: SnapshotMeta,
+  io: CliIO,
+) {
+  // Apply a pending incremental save first, like loading the map would
+  new FileSystemAdapter().recoverSync(file);
+  const compression = fileCompression(file);
+  const snapshot = await loadSnapshotFile(file);
+  const meta = snapshot.header.meta ?? fallback;
+  const before = sizeOf(file);
+  const now = Date.now();
+  const entries = Array.from(liveEntries(snapshot, entryLayout(meta)))
+    .filter((entry) => entry.expireAt === 0 || entry.expireAt > now)
+    .sort((a, b) => a.offset - b.offset);
+
+  await write(
+    out,
+    rebuildSnapshot(entries, meta, snapshot.header.capacity),
+    compression,
+  );
+  const compressed = compression ? ` (${compression})` : "";
+  io.stdout(
+    `${out}: ${entries.length} entries, ${before} -> ${sizeOf(out)} bytes${compressed}\n`,
+  );
+  return 0;
+}
+
+async function repair(
+  file: string,
+  out: string,
+  fallback: SnapshotMeta,
+  io: CliIO,
+) {
+  const result = await salvageSnapshot(file, fallback);
+  const now = Date.now();
+  const entries = result.entries.filter(
+    (entry) => entry.expireAt === 0 || entry.expireAt > now,
+  );
+
+  await write(
+    out,
+    rebuildSnapshot(entries, result.meta, result.header.capacity),
+  );
+  if (result.error) io.stdout(`read error: ${result.error}\n`);
+  if (result.damagedBlocks !== undefined) {
+    io.stdout(`damaged blocks: ${result.damagedBlocks}\n`);
+  }
+  io.stdout(`lost bytes: ${result.lostBytes}\n`);
+  io.stdout(
+    `${out}: recovered ${entries.length} of ${result.header.size} entries\n`,
+  );
+  return 0;
+}
+
+// Codecs assumed for files written before codec metadata existed
+function fallbackMeta(options: CliOptions): SnapshotMeta {
+  const info = (id: string | undefined) => {
+    const codec = codecFromId(id ?? "any");
+    if (!codec) throw new Error(`Unknown codec: ${id}`);
+    return codecInfo(codec);
+  };
+  return {
+    key: info(options["key-codec"]),
+    value: info(options["value-codec"]),
+  };
+}
+
+function describeCodec(info: CodecInfo, assumed: boolean): string {
+  let text = info.id ?? "custom";
+  if (info.fixedLength !== undefined) text += ` (${info.fixedLength} bytes)`;
+  if (assumed) text += " (assumed, no metadata in file)";
+  return text;
+}
+
+// Writes a rebuilt snapshot, compressed like the file it came from
+async function write(
+  path: string,
+  chunks: IterableIterator<Buffer>,
+  compression?: CompressionAlgorithm,
+) {
+  const adapter = new FileSystemAdapter();
+  if (compression) {
+    await new CompressedAdapter(adapter, compression).saveChunks(chunks, path);
+  } else {
+    adapter.saveChunksSync(chunks, path);
+  }
+}
+
+function sizeOf(path: string): number {
+  return fs.statSync(path).size;
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (isSerializedBuffer(value)) {
+    return Buffer.from(value.data).toString("base64");
+  }
+  return value;
+}
+
+// Buffer#toJSON() runs before the replacer sees the value
+function isSerializedBuffer(
+  value: unknown,
+): value is { type: "Buffer"; data: number[] } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    value.type === "Buffer" &&
+    "data" in value &&
+    Array.isArray(value.data)
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Clock for tests and simulations: time only moves when told to.
+ *
+ * ```typescript
+ * const clock = new ManualClock();
+ * const map = new RogueMap({ ttl: 1000, clock: clock.now });
+ * clock.advance(1001); // Every entry is now expired
+ * ```
+ */
+export class ManualClock {
+  private time: number;
+
+  /**
+   * @param start Initial time in milliseconds (default: 0).
+   */
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  /**
+   * Returns the current time. Bound, so it can be passed as the `clock` option.
+   */
+  now = (): number => this.time;
+
+  /**
+   * Moves the clock forward and returns the new time.
+   */
+  advance(ms: number): number {
+    this.time += ms;
+    return this.time;
+  }
+
+  /**
+   * Sets the current time.
+   */
+  set(time: number): void {
+    this.time = time;
+  }
+}
@@ -1,5 +1,15 @@
 import { Codec } from "./interfaces";
 import { Buffer } from "./internal/buffer";
+import { CompressionAlgorithm } from "./persistence/interfaces";
+import {
+  algorithmId,
+  algorithmFromId,
+  compressSync,
+  decompressSync,
+} from "./compression";
+import { defineStruct } from "./struct";
+import { CodecInfo } from "./format";
+import { crc32 } from "./utils";
 
 /**
  * String Codec: Encodes strings as UTF-8.
@@ -16,6 +26,7 @@ export const StringCodec: Codec<string> = {
     return Buffer.byteLength(value);
   },
   fixedLength: undefined,
+  id: "string",
 };
 
 /**
@@ -34,6 +45,7 @@ export const UCS2StringCodec: Codec<string> = {
     return value.length * 2;
   },
   fixedLength: undefined,
+  id: "ucs2",
 };
 
 /**
@@ -51,6 +63,7 @@ export const Int32Codec: Codec<number> = {
     return 4;
   },
   fixedLength: 4,
+  id: "int32",
 };
 
 /**
@@ -68,6 +81,7 @@ export const Float64Codec: Codec<number> = {
     return 8;
   },
   fixedLength: 8,
+  id: "float64",
 };
 
 /**
@@ -87,6 +101,7 @@ export const JSONCodec: Codec<any> = {
     return Buffer.byteLength(JSON.stringify(value));
   },
   fixedLength: undefined,
+  id: "json",
 };
 
 /**
@@ -104,6 +119,7 @@ export const BooleanCodec: Codec<boolean> = {
     return 1;
   },
   fixedLength: 1,
+  id: "boolean",
 };
 
 /**
@@ -121,6 +137,7 @@ export const BigInt64Codec: Codec<bigint> = {
     return 8;
   },
   fixedLength: 8,
+  id: "bigint64",
 };
 
 /**
@@ -138,6 +155,7 @@ export const DateCodec: Codec<Date> = {
     return 8;
   },
   fixedLength: 8,
+  id: "date",
 };
 
 /**
@@ -161,6 +179,7 @@ export const BufferCodec: Codec<Buffer> = {
     return value.length;
   },
   fixedLength: undefined,
+  id: "buffer",
 };
 
 /**
@@ -291,4 +310,202 @@ export const AnyCodec: Codec<any> = {
   },
 
   fixedLength: undefined,
+  id: "any",
 };
+
+export interface CompressedCodecOptions {
+  /**
+   * Values whose encoding is smaller than this (in bytes) are stored raw.
+   * Default: 256
+   */
+  minSize?: number;
+  /**
+   * Default: 'deflate'
+   */
+  algorithm?: CompressionAlgorithm;
+}
+
+/**
+ * Compressed Codec: Wraps another codec and compresses large values individually.
+ * Layout: [Mode(1)] [Payload], Mode 0 = raw inner encoding, otherwise the algorithm id.
+ * Values that do not shrink are stored raw. Requires Node.js (zlib).
+ * Variable length.
+ */
+export function compressedCodec<T>(
+  inner: Codec<T>,
+  options: CompressedCodecOptions = {},
+): Codec<T> {
+  const minSize = options.minSize ?? 256;
+  const algorithm = options.algorithm || "deflate";
+  const mode = algorithmId(algorithm);
+
+  // byteLength() is always followed by encode() of the same value,
+  // so the compressed bytes are computed once and reused.
+  let lastValue: T | undefined;
+  let lastEncoded: Buffer | null = null;
+
+  const encodeValue = (value: T): Buffer => {
+    const len = inner.byteLength(value);
+    const raw = Buffer.allocUnsafe(1 + len);
+    raw.writeUInt8(0, 0);
+    inner.encode(value, raw, 1);
+    if (len >= minSize) {
+      const compressed = compressSync(raw.subarray(1), algorithm);
+      if (compressed.length < len) {
+        return Buffer.concat([Buffer.from([mode]), compressed]);
+      }
+    }
+    return raw;
+  };
+
+  return {
+    encode(value: T, buffer: Buffer, offset: number): number {
+      const encoded =
+        lastEncoded && value === lastValue ? lastEncoded : encodeValue(value);
+      lastValue = undefined;
+      lastEncoded = null;
+      return encoded.copy(buffer, offset);
+    },
+    decode(buffer: Buffer, offset: number, length: number = 0): T {
+      const valueMode = buffer.readUInt8(offset);
+      if (valueMode === 0) {
+        return inner.decode(buffer, offset + 1, length - 1);
+      }
+      const raw = decompressSync(
+        buffer.subarray(offset + 1, offset + length),
+        algorithmFromId(valueMode),
+      );
+      return inner.decode(raw, 0, raw.length);
+    },
+    byteLength(value: T): number {
+      const encoded = encodeValue(value);
+      lastValue = value;
+      lastEncoded = encoded;
+      return encoded.length;
+    },
+    fixedLength: undefined,
+    id: inner.id === undefined ? undefined : `compressed:${inner.id}`,
+    schema: inner.schema,
+  };
+}
+
+const BUILTIN_CODECS: Record<string, Codec<any>> = {
+  string: StringCodec,
+  ucs2: UCS2StringCodec,
+  int32: Int32Codec,
+  float64: Float64Codec,
+  json: JSONCodec,
+  boolean: BooleanCodec,
+  bigint64: BigInt64Codec,
+  date: DateCodec,
+  buffer: BufferCodec,
+  any: AnyCodec,
+};
+
+/**
+ * Rebuilds a codec from the id (and schema and version) stored in a snapshot.
+ * Returns undefined for custom codecs, which have to be passed explicitly.
+ */
+export function codecFromId(
+  id: string,
+  schema?: string,
+  version?: number,
+): Codec<any> | undefined {
+  if (id === "struct") {
+    if (schema === undefined) return undefined;
+    return defineStruct(
+      JSON.parse(schema),
+      version === undefined ? undefined : { version },
+    );
+  }
+  if (id.startsWith("compressed:")) {
+    const inner = codecFromId(id.slice("compressed:".length), schema);
+    return inner && compressedCodec(inner);
+  }
+  return BUILTIN_CODECS[id];
+}
+
+/**
+ * Describes a codec for the snapshot header (see SnapshotMeta).
+ */
+export function codecInfo(codec: Codec<any>): CodecInfo {
+  const info: CodecInfo = {};
+  if (codec.id !== undefined) info.id = codec.id;
+  if (codec.fixedLength !== undefined) info.fixedLength = codec.fixedLength;
+  if (codec.schema !== undefined) {
+    info.schema = codec.schema;
+    info.fingerprint = crc32(Buffer.from(codec.schema, "utf8"));
+  }
+  if (codec.version !== undefined) info.version = codec.version;
+  return info;
+}
+
+/**
+ * Returns the codec to read data written with an older version of a
+ * versioned struct (see defineStruct()), or undefined if the data needs no migration.
+ */
+export function migrationSource(
+  saved: CodecInfo,
+  codec: Codec<any>,
+): Codec<any> | undefined {
+  if (codec.version === undefined || !codec.migrate) return undefined;
+  if (saved.id === undefined || saved.id !== codec.id) return undefined;
+  if (saved.schema === undefined || saved.schema === codec.schema) {
+    return undefined;
+  }
+
+  const from = saved.version ?? 0;
+  if (from > codec.version) {
+    throw new Error(
+      `RogueMap: Snapshot was written with version ${from} of the value struct, newer than the configured version ${codec.version}`,
+    );
+  }
+  // Same version with another schema is reported by resolveCodec()
+  if (from === codec.version) return undefined;
+  return codecFromId(saved.id, saved.schema, saved.version);
+}
+
+/**
+ * Picks the codec for data written with the codec described by `saved`.
+ * An explicit codec is checked against it, otherwise a built-in codec is
+ * rebuilt from the stored id. Throws if they do not match.
+ */
+export function resolveCodec<T>(
+  role: "key" | "value",
+  saved: CodecInfo,
+  codec?: Codec<T>,
+): Codec<T> {
+  const savedName = saved.id ?? "custom";
+
+  if (!codec) {
+    const resolved =
+      saved.id === undefined
+        ? undefined
+        : codecFromId(saved.id, saved.schema, saved.version);
+    if (!resolved) {
+      throw new Error(
+        `RogueMap: Snapshot was written with ${role} codec '${savedName}', pass it as ${role}Codec to load it`,
+      );
+    }
+    return resolved;
+  }
+
+  const info = codecInfo(codec);
+  const mismatch =
+    (saved.id !== undefined && info.id !== undefined && saved.id !== info.id) ||
+    saved.fixedLength !== info.fixedLength ||
+    (saved.fingerprint !== undefined &&
+      info.fingerprint !== undefined &&
+      saved.fingerprint !== info.fingerprint);
+  if (mismatch && saved.id !== undefined && saved.id === info.id) {
+    throw new Error(
+      `RogueMap: Snapshot ${role} schema does not match the configured ${role}Codec '${info.id}'`,
+    );
+  }
+  if (mismatch) {
+    throw new Error(
+      `RogueMap: Snapshot was written with ${role} codec '${savedName}', which does not match the configured ${role}Codec '${info.id ?? "custom"}'`,
+    );
+  }
+  return codec;
+}
@@ -0,0 +1,196 @@
+import * as zlib from "zlib";
+import { Readable, pipeline } from "stream";
+import { Buffer } from "./internal/buffer";
+import { CompressionAlgorithm } from "./persistence/interfaces";
+
+/**
+ * Compression helpers shared by the compressed adapter and compressedCodec().
+ * Node.js uses zlib (sync, async and streaming). Browsers fall back to
+ * CompressionStream, which is async only and has no brotli.
+ *
+ * Compressed blobs are framed so they can be told apart from raw data:
+ * [Magic: RCMP(4)] [Algorithm(1)] [Payload]
+ */
+
+export const COMPRESSION_MAGIC = "RCMP";
+export const COMPRESSION_HEADER_SIZE = 5;
+
+const ALGORITHM_IDS: Record<CompressionAlgorithm, number> = {
+  gzip: 1,
+  deflate: 2,
+  brotli: 3,
+};
+
+const hasZlib = typeof zlib.gzipSync === "function";
+
+export function algorithmId(algorithm: CompressionAlgorithm): number {
+  const id = ALGORITHM_IDS[algorithm];
+  if (!id) throw unknownAlgorithm(algorithm);
+  return id;
+}
+
+export function algorithmFromId(id: number): CompressionAlgorithm {
+  for (const name in ALGORITHM_IDS) {
+    if (ALGORITHM_IDS[name as CompressionAlgorithm] === id) {
+      return name as CompressionAlgorithm;
+    }
+  }
+  throw new Error(`RogueMap: Unknown compression algorithm id: ${id}`);
+}
+
+/**
+ * Compresses data synchronously (Node.js only).
+ */
+export function compressSync(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+): Buffer {
+  requireZlib();
+  switch (algorithm) {
+    case "gzip":
+      return zlib.gzipSync(data);
+    case "deflate":
+      return zlib.deflateSync(data);
+    case "brotli":
+      return zlib.brotliCompressSync(data);
+    default:
+      throw unknownAlgorithm(algorithm);
+  }
+}
+
+/**
+ * Decompresses data synchronously (Node.js only).
+ */
+export function decompressSync(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+): Buffer {
+  requireZlib();
+  switch (algorithm) {
+    case "gzip":
+      return zlib.gunzipSync(data);
+    case "deflate":
+      return zlib.inflateSync(data);
+    case "brotli":
+      return zlib.brotliDecompressSync(data);
+    default:
+      throw unknownAlgorithm(algorithm);
+  }
+}
+
+/**
+ * Compresses data without blocking (zlib thread pool or CompressionStream).
+ */
+export async function compress(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+): Promise<Buffer> {
+  if (hasZlib) {
+    return new Promise((resolve, reject) => {
+      const done = (err: Error | null, result: Buffer) =>
+        err ? reject(err) : resolve(result);
+      if (algorithm === "gzip") zlib.gzip(data, done);
+      else if (algorithm === "deflate") zlib.deflate(data, done);
+      else if (algorithm === "brotli") zlib.brotliCompress(data, done);
+      else reject(unknownAlgorithm(algorithm));
+    });
+  }
+  return webTransform(data, new CompressionStream(webFormat(algorithm)));
+}
+
+/**
+ * Decompresses data without blocking (zlib thread pool or DecompressionStream).
+ */
+export async function decompress(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+): Promise<Buffer> {
+  if (hasZlib) {
+    return new Promise((resolve, reject) => {
+      const done = (err: Error | null, result: Buffer) =>
+        err ? reject(err) : resolve(result);
+      if (algorithm === "gzip") zlib.gunzip(data, done);
+      else if (algorithm === "deflate") zlib.inflate(data, done);
+      else if (algorithm === "brotli") zlib.brotliDecompress(data, done);
+      else reject(unknownAlgorithm(algorithm));
+    });
+  }
+  return webTransform(data, new DecompressionStream(webFormat(algorithm)));
+}
+
+/**
+ * Compresses a sequence of chunks as a stream (Node.js only).
+ */
+export function compressChunks(
+  chunks: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+  algorithm: CompressionAlgorithm,
+): AsyncIterable<Buffer> {
+  requireZlib();
+  const transform =
+    algorithm === "gzip"
+      ? zlib.createGzip()
+      : algorithm === "deflate"
+        ? zlib.createDeflate()
+        : zlib.createBrotliCompress();
+  return pipeChunks(chunks, transform);
+}
+
+/**
+ * Decompresses a sequence of chunks as a stream (Node.js only).
+ */
+export function decompressChunks(
+  chunks: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+  algorithm: CompressionAlgorithm,
+): AsyncIterable<Buffer> {
+  requireZlib();
+  const transform =
+    algorithm === "gzip"
+      ? zlib.createGunzip()
+      : algorithm === "deflate"
+        ? zlib.createInflate()
+        : zlib.createBrotliDecompress();
+  return pipeChunks(chunks, transform);
+}
+
+export function supportsSyncCompression(): boolean {
+  return hasZlib;
+}
+
+function pipeChunks(
+  chunks: Iterable<Uint8Array> | AsyncIterable<Uint8Array>,
+  transform: NodeJS.ReadWriteStream,
+): AsyncIterable<Buffer> {
+  // Errors on either side end up on the transform, which ends the iteration
+  pipeline(Readable.from(chunks, { objectMode: false }), transform, () => {});
+  return transform as unknown as AsyncIterable<Buffer>;
+}
+
+function unknownAlgorithm(algorithm: string): Error {
+  return new Error(`RogueMap: Unknown compression algorithm: ${algorithm}`);
+}
+
+function requireZlib(): void {
+  if (!hasZlib) {
+    throw new Error(
+      "RogueMap: Synchronous and streaming compression require Node.js zlib",
+    );
+  }
+}
+
+function webFormat(algorithm: CompressionAlgorithm): CompressionFormat {
+  if (algorithm === "brotli") {
+    throw new Error(
+      "RogueMap: brotli compression is not available in browsers",
+    );
+  }
+  algorithmId(algorithm);
+  return algorithm;
+}
+
+async function webTransform(
+  data: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Buffer> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(transform);
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,40 @@
+/**
+ * Section of a persisted snapshot that failed validation.
+ */
+export type SnapshotSection = "header" | "buckets" | "data" | "trailer";
+
+/**
+ * Thrown when a persisted snapshot fails integrity checks on load.
+ * `section` tells which part of the file is damaged.
+ */
+export class RogueMapCorruptionError extends Error {
+  readonly section: SnapshotSection;
+
+  constructor(section: SnapshotSection, message: string) {
+    super(`RogueMap: Corrupted snapshot ${section} (${message})`);
+    this.name = "RogueMapCorruptionError";
+    this.section = section;
+  }
+}
+
+/**
+ * Thrown when persisted data cannot be decrypted:
+ * wrong key, tampered or unencrypted data.
+ */
+export class RogueMapEncryptionError extends Error {
+  constructor(message: string) {
+    super(`RogueMap: ${message}`);
+    this.name = "RogueMapEncryptionError";
+  }
+}
+
+/**
+ * Thrown by adapters that cannot perform an operation synchronously
+ * (IndexedDB, async key providers). Callers fall back to the async API.
+ */
+export class RogueMapSyncUnsupportedError extends Error {
+  constructor(message: string) {
+    super(`RogueMap: ${message}`);
+    this.name = "RogueMapSyncUnsupportedError";
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Policy used to pick entries to evict once maxEntries or maxMemory is reached.
+ *
+ * - `lru`: least recently read or written
+ * - `lfu`: least frequently read or written
+ * - `fifo`: oldest inserted (overwrites and reads do not count)
+ * - `random`: any entry
+ */
+export type EvictionPolicy = "lru" | "lfu" | "fifo" | "random";
+
+/**
+ * Per-slot eviction ranks, kept next to the hash table (lowest rank goes first).
+ *
+ * Victims are chosen by sampling, like Redis: a few active slots are scanned
+ * from a random position and the lowest-ranked one wins. This keeps eviction
+ * O(samples) with 8 bytes per slot instead of a linked list per entry.
+ */
+export class EvictionTracker {
+  ranks: Float64Array;
+  last = -1; // Slot written by the latest put, never chosen as a victim
+  private clock = 0;
+
+  constructor(
+    readonly policy: EvictionPolicy,
+    capacity: number,
+    private samples: number,
+  ) {
+    if (!["lru", "lfu", "fifo", "random"].includes(policy)) {
+      throw new Error(`RogueMap: Unknown eviction policy: ${policy}`);
+    }
+    this.ranks = new Float64Array(capacity);
+  }
+
+  /**
+   * Whether reads change the ranks (callers can skip the lookup otherwise).
+   */
+  get tracksReads(): boolean {
+    return this.policy === "lru" || this.policy === "lfu";
+  }
+
+  /**
+   * Drops all ranks. Returns the previous ones.
+   */
+  reset(capacity: number): Float64Array {
+    const previous = this.ranks;
+    this.ranks = new Float64Array(capacity);
+    this.last = -1;
+    return previous;
+  }
+
+  added(index: number): void {
+    this.ranks[index] = this.policy === "lfu" ? 1 : ++this.clock;
+    this.last = index;
+  }
+
+  updated(index: number): void {
+    this.touched(index);
+    this.last = index;
+  }
+
+  touched(index: number): void {
+    if (this.policy === "lru") {
+      this.ranks[index] = ++this.clock;
+    } else if (this.policy === "lfu") {
+      this.ranks[index]++;
+    }
+  }
+
+  /**
+   * Picks the slot to evict, or -1 if there is no candidate.
+   *
+   * @param offsets The hash table offsets (positive = active).
+   */
+  victim(offsets: Float64Array): number {
+    const capacity = offsets.length;
+    const mask = capacity - 1;
+    const ranks = this.ranks;
+    let index = Math.floor(Math.random() * capacity);
+    let victim = -1;
+    let found = 0;
+
+    for (let i = 0; i < capacity && found < this.samples; i++) {
+      if (offsets[index] > 0 && index !== this.last) {
+        if (this.policy === "random") return index;
+        if (victim === -1 || ranks[index] < ranks[victim]) victim = index;
+        found++;
+      }
+      index = (index + 1) & mask;
+    }
+    return victim;
+  }
+}
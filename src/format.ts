@@ -0,0 +1,1040 @@
+import { Buffer } from "./internal/buffer";
+import { crc32 } from "./utils";
+import { RogueMapCorruptionError } from "./errors";
+import { PagedBuffer } from "./PagedBuffer";
+import { PatchRange } from "./persistence/interfaces";
+
+/**
+ * Snapshot file format helpers.
+ *
+ * Version 5 layout (written by RogueMap.serializeChunks()):
+ * [Magic: ROGUE(5)]
+ * [Version: 5(1)]
+ * [Capacity: 4]
+ * [Size: 4]
+ * [WriteOffset: 8]
+ * [BufferLength: 8]
+ * [BlockSize: 4]
+ * [MetaLength: 4]
+ * [HeaderCRC: 4]  CRC32 of all preceding header bytes
+ * [Meta: MetaLength] JSON describing the key/value codecs (SnapshotMeta)
+ * [MetaCRC: 4]
+ * [Buckets: Capacity * 8] Offset as UInt64LE, top bit set for tombstones
+ * [Buffer: BufferLength]
+ * [Trailer: BucketBlockCRCs (4 each)] [DataBlockCRCs (4 each)] [TrailerCRC: 4]
+ *
+ * Every BlockSize bytes of the bucket table and data region get their own CRC32,
+ * so the file can be written and verified in a single streaming pass.
+ *
+ * Version 6 is version 5 with a sliding TTL table after the bucket table,
+ * written only when the map has sliding entries:
+ * [Windows: Capacity * 8] Sliding window of each bucket as Float64LE (0 = fixed)
+ * Its block checksums follow those of the bucket table in the trailer.
+ *
+ * Version 4 (same without MetaLength and Meta), version 3 (32-bit offsets,
+ * one CRC32 per section in the header) and version 2 (no checksums)
+ * are still readable.
+ */
+
+export const SNAPSHOT_MAGIC = "ROGUE";
+export const SNAPSHOT_VERSION = 6;
+export const SNAPSHOT_HEADER_SIZE = 5 + 1 + 4 + 4 + 8 + 8 + 4 + 4 + 4; // Without the meta section
+export const SNAPSHOT_BLOCK_SIZE = 1024 * 1024; // 1MB
+export const INCREMENTAL_BLOCK_SIZE = 64 * 1024; // Finer blocks keep patches small
+const SNAPSHOT_HEADER_SIZE_V2 = 5 + 1 + 4 + 4 + 4 + 4;
+const SNAPSHOT_HEADER_SIZE_V3 = SNAPSHOT_HEADER_SIZE_V2 + 4 + 4 + 4;
+const SNAPSHOT_HEADER_SIZE_V4 = SNAPSHOT_HEADER_SIZE - 4;
+const SNAPSHOT_VERSION_NO_WINDOWS = 5;
+const MAX_META_LENGTH = 16 * 1024 * 1024;
+const TOMBSTONE_BIT = 0x80000000;
+
+/**
+ * Describes the codec a snapshot was written with.
+ */
+export interface CodecInfo {
+  /**
+   * Codec.id, absent for custom codecs.
+   */
+  id?: string;
+  fixedLength?: number;
+  /**
+   * Codec.schema (e.g. the defineStruct() layout) and its CRC32.
+   */
+  schema?: string;
+  fingerprint?: number;
+  /**
+   * Codec.version of a versioned struct.
+   */
+  version?: number;
+}
+
+/**
+ * Codec metadata stored in the header (version 5+).
+ */
+export interface SnapshotMeta {
+  key: CodecInfo;
+  value: CodecInfo;
+}
+
+export interface SnapshotHeader {
+  version: number;
+  capacity: number;
+  size: number;
+  writeOffset: number;
+  bufferLength: number;
+  /**
+   * Byte offset of the bucket table.
+   */
+  bucketsOffset: number;
+  /**
+   * Byte offset of the sliding TTL table (version 6).
+   */
+  windowsOffset?: number;
+  /**
+   * Byte offset of the data region.
+   */
+  dataOffset: number;
+  /**
+   * Bytes per bucket table entry (4 before version 4, then 8).
+   */
+  bucketSize: number;
+  /**
+   * Checksum block size (version 4+).
+   */
+  blockSize?: number;
+  /**
+   * Section checksums (version 3 only).
+   */
+  bucketsCrc?: number;
+  dataCrc?: number;
+  /**
+   * Length of the meta section (version 5+).
+   */
+  metaLength?: number;
+  /**
+   * Codec metadata (version 5+). Set by SnapshotReader, or by
+   * readSnapshotHeader() if the data includes the meta section.
+   */
+  meta?: SnapshotMeta;
+}
+
+/**
+ * State captured from a RogueMap for writing.
+ */
+export interface SnapshotSource {
+  capacity: number;
+  size: number;
+  writeOffset: number;
+  /**
+   * Bucket offsets (0 = empty, negative = tombstone).
+   */
+  offsets: Float64Array;
+  /**
+   * Sliding TTL per bucket (0 = fixed expiry), null if no entry slides.
+   */
+  windows?: Float64Array | null;
+  buffer: PagedBuffer;
+  meta?: SnapshotMeta;
+}
+
+/**
+ * State restored by SnapshotReader.
+ */
+export interface LoadedSnapshot {
+  header: SnapshotHeader;
+  /**
+   * Bucket offsets (0 = empty, negative = tombstone).
+   */
+  offsets: Float64Array;
+  /**
+   * Sliding TTL per bucket (version 6).
+   */
+  windows?: Float64Array;
+  buffer: PagedBuffer;
+}
+
+/**
+ * Block checksums of a written version 4 snapshot.
+ */
+export interface SnapshotChecksums {
+  blockSize: number;
+  headerSize: number;
+  capacity: number;
+  writeOffset: number;
+  bucketCrcs: number[];
+  windowCrcs?: number[];
+  dataCrcs: number[];
+}
+
+/**
+ * In-place update of a snapshot file, see writeSnapshotPatch().
+ */
+export interface SnapshotPatch {
+  ranges: PatchRange[];
+  /**
+   * Total file length after the patch.
+   */
+  length: number;
+  checksums: SnapshotChecksums;
+}
+
+/**
+ * Parses the snapshot header and verifies its checksum (version 3+).
+ * Throws RogueMapCorruptionError if the header is damaged,
+ * or an Error if the version is not supported.
+ */
+export function readSnapshotHeader(data: Uint8Array): SnapshotHeader {
+  const buf = toBuffer(data);
+  if (
+    buf.length < SNAPSHOT_HEADER_SIZE_V2 ||
+    buf.toString("utf8", 0, 5) !== SNAPSHOT_MAGIC
+  ) {
+    throw new RogueMapCorruptionError("header", "Invalid RogueMap format");
+  }
+
+  const version = buf.readUInt8(5);
+  if (version < 2 || version > SNAPSHOT_VERSION)
+    throw new Error(
+      `Unsupported RogueMap version: ${version}. Only versions 2 to ${SNAPSHOT_VERSION} are supported.`,
+    );
+
+  const headerSize =
+    version === 2
+      ? SNAPSHOT_HEADER_SIZE_V2
+      : version === 3
+        ? SNAPSHOT_HEADER_SIZE_V3
+        : version === 4
+          ? SNAPSHOT_HEADER_SIZE_V4
+          : SNAPSHOT_HEADER_SIZE;
+
+  if (buf.length < headerSize) {
+    throw new RogueMapCorruptionError("header", "truncated header");
+  }
+  if (
+    version >= 3 &&
+    crc32(buf, 0, headerSize - 4) !== buf.readUInt32LE(headerSize - 4)
+  ) {
+    throw new RogueMapCorruptionError("header", "checksum mismatch");
+  }
+
+  const capacity = buf.readUInt32LE(6);
+  const size = buf.readUInt32LE(10);
+  let writeOffset: number;
+  let bufferLength: number;
+  let bucketSize = 4;
+  let blockSize: number | undefined;
+  let bucketsCrc: number | undefined;
+  let dataCrc: number | undefined;
+  let metaLength: number | undefined;
+  let meta: SnapshotMeta | undefined;
+
+  if (version >= 4) {
+    writeOffset = readUInt64(buf, 14);
+    bufferLength = readUInt64(buf, 22);
+    blockSize = buf.readUInt32LE(30);
+    bucketSize = 8;
+    if (blockSize === 0) {
+      throw new RogueMapCorruptionError("header", "invalid block size");
+    }
+    if (version >= 5) {
+      metaLength = buf.readUInt32LE(34);
+      if (metaLength > MAX_META_LENGTH) {
+        throw new RogueMapCorruptionError(
+          "header",
+          `invalid meta length ${metaLength}`,
+        );
+      }
+      if (buf.length >= headerSize + metaLength + 4) {
+        meta = readSnapshotMeta(
+          buf.subarray(headerSize, headerSize + metaLength + 4),
+        );
+      }
+    }
+  } else {
+    writeOffset = buf.readUInt32LE(14);
+    bufferLength = buf.readUInt32LE(18);
+    if (version === 3) {
+      bucketsCrc = buf.readUInt32LE(22);
+      dataCrc = buf.readUInt32LE(26);
+    }
+  }
+
+  if (capacity === 0 || (capacity & (capacity - 1)) !== 0) {
+    throw new RogueMapCorruptionError("header", `invalid capacity ${capacity}`);
+  }
+  if (size > capacity) {
+    throw new RogueMapCorruptionError("header", `invalid size ${size}`);
+  }
+  if (writeOffset < 1 || writeOffset > bufferLength) {
+    throw new RogueMapCorruptionError(
+      "header",
+      `invalid write offset ${writeOffset}`,
+    );
+  }
+
+  const bucketsOffset =
+    metaLength === undefined ? headerSize : headerSize + metaLength + 4;
+  const windowsOffset =
+    version >= 6 ? bucketsOffset + capacity * bucketSize : undefined;
+  return {
+    version,
+    capacity,
+    size,
+    writeOffset,
+    bufferLength,
+    bucketsOffset,
+    windowsOffset,
+    dataOffset: (windowsOffset ?? bucketsOffset) + capacity * bucketSize,
+    bucketSize,
+    blockSize,
+    bucketsCrc,
+    dataCrc,
+    metaLength,
+    meta,
+  };
+}
+
+/**
+ * Writes a version 5 snapshot (6 with sliding windows) as a sequence of chunks.
+ * The bucket table is emitted in BlockSize slices and the data region
+ * page by page, so no buffer larger than one block is ever allocated.
+ *
+ * Data chunks are copies, so checksums always match the bytes handed out
+ * even if the source keeps changing while the chunks are consumed.
+ *
+ * @param onChecksums Receives the block checksums once the last chunk is produced
+ * (used to patch the file incrementally later, see writeSnapshotPatch()).
+ */
+export function* writeSnapshot(
+  source: SnapshotSource,
+  blockSize: number = SNAPSHOT_BLOCK_SIZE,
+  onChecksums?: (checksums: SnapshotChecksums) => void,
+): IterableIterator<Buffer> {
+  const { capacity, offsets, windows, buffer, writeOffset } = source;
+
+  const header = encodeHeader(source, blockSize);
+  yield header;
+
+  const bucketCrcs: number[] = [];
+  const slotsPerBlock = Math.max(1, Math.floor(blockSize / 8));
+  for (let i = 0; i < capacity; i += slotsPerBlock) {
+    const chunk = encodeBuckets(
+      offsets,
+      i,
+      Math.min(slotsPerBlock, capacity - i),
+    );
+    bucketCrcs.push(crc32(chunk));
+    yield chunk;
+  }
+
+  let windowCrcs: number[] | undefined;
+  if (windows) {
+    windowCrcs = [];
+    for (let i = 0; i < capacity; i += slotsPerBlock) {
+      const chunk = encodeWindows(
+        windows,
+        i,
+        Math.min(slotsPerBlock, capacity - i),
+      );
+      windowCrcs.push(crc32(chunk));
+      yield chunk;
+    }
+  }
+
+  const dataCrcs: number[] = [];
+  for (let pos = 0; pos < writeOffset; pos += blockSize) {
+    const chunk = copyData(buffer, pos, Math.min(blockSize, writeOffset - pos));
+    dataCrcs.push(crc32(chunk));
+    yield chunk;
+  }
+
+  if (onChecksums) {
+    onChecksums({
+      blockSize,
+      headerSize: header.length,
+      capacity,
+      writeOffset,
+      bucketCrcs,
+      windowCrcs,
+      dataCrcs,
+    });
+  }
+  yield encodeTrailer(bucketCrcs, windowCrcs, dataCrcs);
+}
+
+/**
+ * Builds the byte ranges that turn a previously written snapshot into one of
+ * the current state, given which blocks changed since (see writeSnapshot()).
+ * Blocks past the previous write offset are always included, as are the
+ * header and the trailer (which moves as the data region grows).
+ *
+ * The window table shares the block layout of the bucket table: each dirty
+ * bucket block rewrites the window block of the same slots too.
+ *
+ * The capacity, block size, codec metadata and whether there is a window
+ * table must not have changed since `previous`.
+ */
+export function writeSnapshotPatch(
+  source: SnapshotSource,
+  previous: SnapshotChecksums,
+  dirtyBuckets: Iterable<number>,
+  dirtyData: Iterable<number>,
+): SnapshotPatch {
+  const { capacity, offsets, windows, buffer, writeOffset } = source;
+  const { blockSize } = previous;
+  const header = encodeHeader(source, blockSize);
+  if (
+    capacity !== previous.capacity ||
+    writeOffset < previous.writeOffset ||
+    header.length !== previous.headerSize ||
+    !windows !== !previous.windowCrcs
+  ) {
+    throw new Error(
+      "RogueMap: Snapshot layout changed, a full save is required",
+    );
+  }
+
+  const ranges: PatchRange[] = [{ offset: 0, data: header }];
+  const bucketsOffset = header.length;
+  const windowsOffset = bucketsOffset + capacity * 8;
+  const dataOffset = windows ? windowsOffset + capacity * 8 : windowsOffset;
+
+  const bucketCrcs = previous.bucketCrcs.slice();
+  const windowCrcs = previous.windowCrcs && previous.windowCrcs.slice();
+  const slotsPerBlock = Math.max(1, Math.floor(blockSize / 8));
+  for (const block of dirtyBuckets) {
+    const start = block * slotsPerBlock;
+    if (start >= capacity) continue;
+    const count = Math.min(slotsPerBlock, capacity - start);
+    const chunk = encodeBuckets(offsets, start, count);
+    bucketCrcs[block] = crc32(chunk);
+    ranges.push({ offset: bucketsOffset + start * 8, data: chunk });
+    if (windows && windowCrcs) {
+      const windowChunk = encodeWindows(windows, start, count);
+      windowCrcs[block] = crc32(windowChunk);
+      ranges.push({ offset: windowsOffset + start * 8, data: windowChunk });
+    }
+  }
+
+  const blocks = new Set<number>(dirtyData);
+  // The last block was partial and everything after it is new
+  for (
+    let block = Math.floor(previous.writeOffset / blockSize);
+    block * blockSize < writeOffset;
+    block++
+  ) {
+    blocks.add(block);
+  }
+
+  const dataCrcs = previous.dataCrcs.slice();
+  for (const block of blocks) {
+    const pos = block * blockSize;
+    if (pos >= writeOffset) continue;
+    const chunk = copyData(buffer, pos, Math.min(blockSize, writeOffset - pos));
+    dataCrcs[block] = crc32(chunk);
+    ranges.push({ offset: dataOffset + pos, data: chunk });
+  }
+  dataCrcs.length = Math.ceil(writeOffset / blockSize);
+
+  const trailer = encodeTrailer(bucketCrcs, windowCrcs, dataCrcs);
+  ranges.push({ offset: dataOffset + writeOffset, data: trailer });
+
+  return {
+    ranges,
+    length: dataOffset + writeOffset + trailer.length,
+    checksums: {
+      blockSize,
+      headerSize: header.length,
+      capacity,
+      writeOffset,
+      bucketCrcs,
+      windowCrcs,
+      dataCrcs,
+    },
+  };
+}
+
+/**
+ * Incremental snapshot parser.
+ * Feed it chunks in order with push(), then call finish().
+ *
+ * Version 4+ files are parsed as they arrive (the data region is written
+ * straight into a PagedBuffer). Older versions are buffered and parsed at the end.
+ */
+export class SnapshotReader {
+  private verifyOnly: boolean;
+  private stage:
+    | "header"
+    | "meta"
+    | "legacy"
+    | "buckets"
+    | "windows"
+    | "data"
+    | "trailer"
+    | "done" = "header";
+  private headerBuf = Buffer.alloc(SNAPSHOT_HEADER_SIZE);
+  private headerLen = 0;
+  private metaBuf?: Buffer;
+  private legacyChunks: Buffer[] = [];
+  private header?: SnapshotHeader;
+  private position = 0; // Bytes consumed in the current stage
+  private slot = 0; // Next bucket slot to decode
+  private carry = Buffer.alloc(8); // Table entry split across chunks
+  private carryLen = 0;
+  private trailer?: Buffer;
+  private bucketCrcs?: BlockChecksums;
+  private windowCrcs?: BlockChecksums;
+  private dataCrcs?: BlockChecksums;
+  private offsets?: Float64Array;
+  private windows?: Float64Array;
+  private buffer?: PagedBuffer;
+
+  /**
+   * @param options.verifyOnly Only check integrity, do not keep the data.
+   */
+  constructor(options: { verifyOnly?: boolean } = {}) {
+    this.verifyOnly = !!options.verifyOnly;
+  }
+
+  push(chunk: Uint8Array): void {
+    let data = toBuffer(chunk);
+
+    while (data.length > 0) {
+      switch (this.stage) {
+        case "header":
+          data = this.pushHeader(data);
+          break;
+        case "meta":
+          data = this.pushMeta(data);
+          break;
+        case "legacy":
+          this.legacyChunks.push(data);
+          return;
+        case "buckets":
+          data = this.pushBuckets(data);
+          break;
+        case "windows":
+          data = this.pushWindows(data);
+          break;
+        case "data":
+          data = this.pushData(data);
+          break;
+        case "trailer":
+          data = this.pushTrailer(data);
+          break;
+        case "done":
+          throw new RogueMapCorruptionError(
+            "trailer",
+            "unexpected bytes after trailer",
+          );
+      }
+    }
+  }
+
+  /**
+   * Verifies the snapshot once all chunks have been pushed.
+   * Throws RogueMapCorruptionError naming the damaged section.
+   */
+  finish(): SnapshotHeader {
+    if (this.stage === "header") {
+      if (this.headerLen >= 6 && this.headerBuf.readUInt8(5) >= 4) {
+        throw new RogueMapCorruptionError("header", "truncated header");
+      }
+      // Let the legacy path report the precise error
+      this.legacyChunks = [this.headerBuf.subarray(0, this.headerLen)];
+      this.stage = "legacy";
+    }
+    if (this.stage === "legacy") return this.finishLegacy();
+
+    const header = this.header!;
+    if (this.stage === "meta") {
+      throw new RogueMapCorruptionError("header", "truncated meta section");
+    }
+    if (this.stage === "buckets" || this.stage === "windows") {
+      throw new RogueMapCorruptionError("buckets", "truncated bucket table");
+    }
+    if (this.stage === "data") {
+      throw new RogueMapCorruptionError("data", "truncated data region");
+    }
+    if (this.stage === "trailer") {
+      throw new RogueMapCorruptionError("trailer", "truncated trailer");
+    }
+
+    const trailer = this.trailer!;
+    const bucketCrcs = this.bucketCrcs!.finish();
+    const windowCrcs = this.windowCrcs ? this.windowCrcs.finish() : [];
+    const dataCrcs = this.dataCrcs!.finish();
+    const crcEnd = trailer.length - 4;
+    if (crc32(trailer, 0, crcEnd) !== trailer.readUInt32LE(crcEnd)) {
+      throw new RogueMapCorruptionError("trailer", "checksum mismatch");
+    }
+    for (let i = 0; i < bucketCrcs.length; i++) {
+      if (trailer.readUInt32LE(i * 4) !== bucketCrcs[i]) {
+        throw new RogueMapCorruptionError(
+          "buckets",
+          `checksum mismatch in block ${i}`,
+        );
+      }
+    }
+    for (let i = 0; i < windowCrcs.length; i++) {
+      if (trailer.readUInt32LE((bucketCrcs.length + i) * 4) !== windowCrcs[i]) {
+        throw new RogueMapCorruptionError(
+          "buckets",
+          `checksum mismatch in window block ${i}`,
+        );
+      }
+    }
+    const base = (bucketCrcs.length + windowCrcs.length) * 4;
+    for (let i = 0; i < dataCrcs.length; i++) {
+      if (trailer.readUInt32LE(base + i * 4) !== dataCrcs[i]) {
+        throw new RogueMapCorruptionError(
+          "data",
+          `checksum mismatch in block ${i}`,
+        );
+      }
+    }
+
+    return header;
+  }
+
+  /**
+   * Returns the restored state. Call after finish().
+   */
+  snapshot(): LoadedSnapshot {
+    if (this.verifyOnly || !this.header || !this.offsets || !this.buffer) {
+      throw new Error("RogueMap: Snapshot not loaded");
+    }
+    return {
+      header: this.header,
+      offsets: this.offsets,
+      windows: this.windows,
+      buffer: this.buffer,
+    };
+  }
+
+  private pushHeader(data: Buffer): Buffer {
+    // The version byte decides how much header we need
+    const version = this.headerLen < 6 ? 0 : this.headerBuf.readUInt8(5);
+    const want =
+      this.headerLen < 6
+        ? 6
+        : version === 4
+          ? SNAPSHOT_HEADER_SIZE_V4
+          : version >= 5
+            ? SNAPSHOT_HEADER_SIZE
+            : 0;
+
+    if (want === 0) {
+      this.legacyChunks.push(
+        Buffer.from(this.headerBuf.subarray(0, this.headerLen)),
+      );
+      this.stage = "legacy";
+      return data;
+    }
+
+    const n = Math.min(want - this.headerLen, data.length);
+    data.copy(this.headerBuf, this.headerLen, 0, n);
+    this.headerLen += n;
+
+    if (want > 6 && this.headerLen === want) {
+      const header = readSnapshotHeader(this.headerBuf.subarray(0, want));
+      this.header = header;
+      this.bucketCrcs = new BlockChecksums(header.blockSize!);
+      this.dataCrcs = new BlockChecksums(header.blockSize!);
+      if (header.windowsOffset !== undefined) {
+        this.windowCrcs = new BlockChecksums(header.blockSize!);
+      }
+      if (!this.verifyOnly) {
+        this.offsets = new Float64Array(header.capacity);
+        this.buffer = PagedBuffer.allocUnsafe(header.bufferLength);
+        if (this.windowCrcs) this.windows = new Float64Array(header.capacity);
+      }
+      this.position = 0;
+      if (header.metaLength !== undefined) {
+        this.metaBuf = Buffer.alloc(header.metaLength + 4);
+        this.stage = "meta";
+      } else {
+        this.stage = "buckets";
+      }
+    }
+    return data.subarray(n);
+  }
+
+  private pushMeta(data: Buffer): Buffer {
+    const metaBuf = this.metaBuf!;
+    const n = Math.min(metaBuf.length - this.position, data.length);
+    data.copy(metaBuf, this.position, 0, n);
+    this.position += n;
+
+    if (this.position === metaBuf.length) {
+      this.header!.meta = readSnapshotMeta(metaBuf);
+      this.metaBuf = undefined;
+      this.stage = "buckets";
+      this.position = 0;
+    }
+    return data.subarray(n);
+  }
+
+  private pushBuckets(data: Buffer): Buffer {
+    const total = this.header!.capacity * 8;
+    const n = Math.min(total - this.position, data.length);
+    this.bucketCrcs!.update(data, 0, n);
+
+    if (!this.verifyOnly) {
+      let i = 0;
+      if (this.carryLen > 0) {
+        const take = Math.min(8 - this.carryLen, n);
+        data.copy(this.carry, this.carryLen, 0, take);
+        this.carryLen += take;
+        i = take;
+        if (this.carryLen === 8) {
+          this.decodeBucket(this.carry, 0);
+          this.carryLen = 0;
+        }
+      }
+      for (; i + 8 <= n; i += 8) {
+        this.decodeBucket(data, i);
+      }
+      if (i < n) {
+        data.copy(this.carry, 0, i, n);
+        this.carryLen = n - i;
+      }
+    }
+
+    this.position += n;
+    if (this.position === total) {
+      this.stage = this.windowCrcs ? "windows" : "data";
+      this.position = 0;
+      this.slot = 0;
+    }
+    return data.subarray(n);
+  }
+
+  private decodeBucket(buf: Buffer, pos: number): void {
+    const low = buf.readUInt32LE(pos);
+    const high = buf.readUInt32LE(pos + 4);
+    const offset = (high & ~TOMBSTONE_BIT) * 0x100000000 + low;
+    this.offsets![this.slot++] = high & TOMBSTONE_BIT ? -offset : offset;
+  }
+
+  private pushWindows(data: Buffer): Buffer {
+    const total = this.header!.capacity * 8;
+    const n = Math.min(total - this.position, data.length);
+    this.windowCrcs!.update(data, 0, n);
+
+    if (!this.verifyOnly) {
+      const windows = this.windows!;
+      let i = 0;
+      if (this.carryLen > 0) {
+        const take = Math.min(8 - this.carryLen, n);
+        data.copy(this.carry, this.carryLen, 0, take);
+        this.carryLen += take;
+        i = take;
+        if (this.carryLen === 8) {
+          windows[this.slot++] = this.carry.readDoubleLE(0);
+          this.carryLen = 0;
+        }
+      }
+      for (; i + 8 <= n; i += 8) {
+        windows[this.slot++] = data.readDoubleLE(i);
+      }
+      if (i < n) {
+        data.copy(this.carry, 0, i, n);
+        this.carryLen = n - i;
+      }
+    }
+
+    this.position += n;
+    if (this.position === total) {
+      this.stage = "data";
+      this.position = 0;
+    }
+    return data.subarray(n);
+  }
+
+  private pushData(data: Buffer): Buffer {
+    const total = this.header!.bufferLength;
+    const n = Math.min(total - this.position, data.length);
+    this.dataCrcs!.update(data, 0, n);
+    if (!this.verifyOnly && n > 0) {
+      this.buffer!.writeBuffer(data.subarray(0, n), this.position);
+    }
+
+    this.position += n;
+    if (this.position === total) {
+      const tableBlocks = this.bucketCrcs!.count(this.header!.capacity * 8);
+      const blocks =
+        (this.windowCrcs ? tableBlocks * 2 : tableBlocks) +
+        this.dataCrcs!.count(total);
+      this.trailer = Buffer.allocUnsafe(blocks * 4 + 4);
+      this.stage = "trailer";
+      this.position = 0;
+    }
+    return data.subarray(n);
+  }
+
+  private pushTrailer(data: Buffer): Buffer {
+    const trailer = this.trailer!;
+    const n = Math.min(trailer.length - this.position, data.length);
+    data.copy(trailer, this.position, 0, n);
+    this.position += n;
+    if (this.position === trailer.length) {
+      this.stage = "done";
+    }
+    return data.subarray(n);
+  }
+
+  private finishLegacy(): SnapshotHeader {
+    const data = Buffer.concat(this.legacyChunks);
+    const header = readSnapshotHeader(data);
+    const { capacity, bucketsOffset, dataOffset, bufferLength, writeOffset } =
+      header;
+
+    if (data.length < dataOffset) {
+      throw new RogueMapCorruptionError("buckets", "truncated bucket table");
+    }
+    if (
+      header.bucketsCrc !== undefined &&
+      crc32(data, bucketsOffset, dataOffset) !== header.bucketsCrc
+    ) {
+      throw new RogueMapCorruptionError("buckets", "checksum mismatch");
+    }
+    if (data.length < dataOffset + bufferLength) {
+      throw new RogueMapCorruptionError("data", "truncated data region");
+    }
+    if (
+      header.dataCrc !== undefined &&
+      crc32(data, dataOffset, dataOffset + bufferLength) !== header.dataCrc
+    ) {
+      throw new RogueMapCorruptionError("data", "checksum mismatch");
+    }
+
+    // Older versions take tombstone state from the entry flag
+    const offsets = new Float64Array(capacity);
+    for (let i = 0; i < capacity; i++) {
+      const offset = data.readUInt32LE(bucketsOffset + i * 4);
+      if (offset === 0) continue;
+      if (offset >= writeOffset) {
+        throw new RogueMapCorruptionError(
+          "buckets",
+          `bucket ${i} points outside the data region`,
+        );
+      }
+      const flag = data[dataOffset + offset];
+      if (flag === 1) {
+        offsets[i] = offset;
+      } else if (flag === 2) {
+        offsets[i] = -offset;
+      } else {
+        throw new RogueMapCorruptionError(
+          "data",
+          `invalid entry flag at offset ${offset}`,
+        );
+      }
+    }
+
+    if (!this.verifyOnly) {
+      const buffer = PagedBuffer.allocUnsafe(bufferLength);
+      buffer.writeBuffer(
+        data.subarray(dataOffset, dataOffset + bufferLength),
+        0,
+      );
+      this.header = header;
+      this.offsets = offsets;
+      this.buffer = buffer;
+    }
+    return header;
+  }
+}
+
+/**
+ * Returns true if the chunks form a complete snapshot whose checksums match.
+ */
+export function isValidSnapshot(chunks: Iterable<Uint8Array>): boolean {
+  try {
+    const reader = new SnapshotReader({ verifyOnly: true });
+    for (const chunk of chunks) reader.push(chunk);
+    reader.finish();
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * A byte stream a snapshot can be read from:
+ * a Node.js Readable (or any async iterable of chunks) or a Web ReadableStream.
+ */
+export type SnapshotStream =
+  AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>;
+
+/**
+ * Iterates the chunks of a SnapshotStream.
+ * Web streams are read through a reader, as not every browser
+ * makes them async iterable.
+ */
+export async function* readStreamChunks(
+  stream: SnapshotStream,
+): AsyncIterableIterator<Uint8Array> {
+  if (Symbol.asyncIterator in stream) {
+    yield* stream as AsyncIterable<Uint8Array>;
+    return;
+  }
+  const reader = (stream as ReadableStream<Uint8Array>).getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Running CRC32 per fixed-size block.
+ */
+class BlockChecksums {
+  private crcs: number[] = [];
+  private current = 0;
+  private filled = 0;
+
+  constructor(private blockSize: number) {}
+
+  update(data: Uint8Array, start: number, end: number): void {
+    while (start < end) {
+      const n = Math.min(this.blockSize - this.filled, end - start);
+      this.current = crc32(data, start, start + n, this.current);
+      this.filled += n;
+      start += n;
+      if (this.filled === this.blockSize) {
+        this.crcs.push(this.current);
+        this.current = 0;
+        this.filled = 0;
+      }
+    }
+  }
+
+  finish(): number[] {
+    if (this.filled > 0) {
+      this.crcs.push(this.current);
+      this.current = 0;
+      this.filled = 0;
+    }
+    return this.crcs;
+  }
+
+  count(bytes: number): number {
+    return Math.ceil(bytes / this.blockSize);
+  }
+}
+
+function encodeHeader(source: SnapshotSource, blockSize: number): Buffer {
+  const meta = Buffer.from(
+    JSON.stringify(source.meta ?? { key: {}, value: {} }),
+    "utf8",
+  );
+  const header = Buffer.allocUnsafe(SNAPSHOT_HEADER_SIZE + meta.length + 4);
+  header.write(SNAPSHOT_MAGIC, 0);
+  header.writeUInt8(
+    source.windows ? SNAPSHOT_VERSION : SNAPSHOT_VERSION_NO_WINDOWS,
+    5,
+  );
+  header.writeUInt32LE(source.capacity, 6);
+  header.writeUInt32LE(source.size, 10);
+  writeUInt64(header, source.writeOffset, 14);
+  writeUInt64(header, source.writeOffset, 22); // Only the used buffer is saved
+  header.writeUInt32LE(blockSize, 30);
+  header.writeUInt32LE(meta.length, 34);
+  header.writeUInt32LE(
+    crc32(header, 0, SNAPSHOT_HEADER_SIZE - 4),
+    SNAPSHOT_HEADER_SIZE - 4,
+  );
+  meta.copy(header, SNAPSHOT_HEADER_SIZE);
+  header.writeUInt32LE(crc32(meta), SNAPSHOT_HEADER_SIZE + meta.length);
+  return header;
+}
+
+/**
+ * Parses a `[Meta][MetaCRC]` section.
+ */
+function readSnapshotMeta(buf: Buffer): SnapshotMeta {
+  const end = buf.length - 4;
+  if (crc32(buf, 0, end) !== buf.readUInt32LE(end)) {
+    throw new RogueMapCorruptionError("header", "meta checksum mismatch");
+  }
+  let parsed: Partial<SnapshotMeta>;
+  try {
+    parsed = JSON.parse(buf.toString("utf8", 0, end));
+  } catch (e) {
+    throw new RogueMapCorruptionError("header", "invalid meta section");
+  }
+  return { key: parsed.key ?? {}, value: parsed.value ?? {} };
+}
+
+function encodeBuckets(
+  offsets: Float64Array,
+  start: number,
+  count: number,
+): Buffer {
+  const chunk = Buffer.allocUnsafe(count * 8);
+  for (let j = 0; j < count; j++) {
+    const offset = offsets[start + j];
+    const abs = Math.abs(offset);
+    chunk.writeUInt32LE(abs % 0x100000000, j * 8);
+    const high = Math.floor(abs / 0x100000000);
+    chunk.writeUInt32LE(
+      offset < 0 ? (high | TOMBSTONE_BIT) >>> 0 : high,
+      j * 8 + 4,
+    );
+  }
+  return chunk;
+}
+
+function encodeWindows(
+  windows: Float64Array,
+  start: number,
+  count: number,
+): Buffer {
+  const chunk = Buffer.allocUnsafe(count * 8);
+  for (let j = 0; j < count; j++) {
+    chunk.writeDoubleLE(windows[start + j], j * 8);
+  }
+  return chunk;
+}
+
+function copyData(buffer: PagedBuffer, pos: number, len: number): Buffer {
+  const chunk = Buffer.allocUnsafe(len);
+  buffer.copy(chunk, 0, pos, pos + len);
+  return chunk;
+}
+
+function encodeTrailer(
+  bucketCrcs: number[],
+  windowCrcs: number[] | undefined,
+  dataCrcs: number[],
+): Buffer {
+  const crcs = bucketCrcs.concat(windowCrcs || [], dataCrcs);
+  const trailer = Buffer.allocUnsafe(crcs.length * 4 + 4);
+  for (let i = 0; i < crcs.length; i++) {
+    trailer.writeUInt32LE(crcs[i], i * 4);
+  }
+  trailer.writeUInt32LE(crc32(trailer, 0, crcs.length * 4), crcs.length * 4);
+  return trailer;
+}
+
+function readUInt64(buf: Buffer, offset: number): number {
+  return buf.readUInt32LE(offset + 4) * 0x100000000 + buf.readUInt32LE(offset);
+}
+
+function writeUInt64(buf: Buffer, value: number, offset: number): void {
+  buf.writeUInt32LE(value % 0x100000000, offset);
+  buf.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.isBuffer(data)
+    ? (data as Buffer)
+    : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -2,6 +2,8 @@ export * from './interfaces';
 export * from './codecs';
 export * from './struct';
 export * from './RogueMap';
+export * from './clock';
 export * from './utils';
+export * from './errors';
 export * from './persistence';
 export * from './persistence/interfaces';
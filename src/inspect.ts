@@ -0,0 +1,553 @@
+import * as fs from "fs";
+import { Buffer } from "./internal/buffer";
+import { Codec } from "./interfaces";
+import { PagedBuffer } from "./PagedBuffer";
+import { codecFromId } from "./codecs";
+import { RogueMapCorruptionError } from "./errors";
+import {
+  SnapshotReader,
+  SnapshotHeader,
+  SnapshotMeta,
+  CodecInfo,
+  LoadedSnapshot,
+  readSnapshotHeader,
+  writeSnapshot,
+  SNAPSHOT_BLOCK_SIZE,
+} from "./format";
+import {
+  algorithmFromId,
+  COMPRESSION_HEADER_SIZE,
+  COMPRESSION_MAGIC,
+} from "./compression";
+import { decodeStream } from "./persistence/compression";
+import { ENCRYPTION_MAGIC } from "./persistence/encryption";
+import { CompressionAlgorithm } from "./persistence/interfaces";
+import { crc32 } from "./utils";
+
+/**
+ * Offline access to snapshot files, entry by entry (used by the rogue-map CLI).
+ *
+ * Entries are read without the map's codecs: the snapshot metadata (or the
+ * codecs the caller assumes for older files) only tells which lengths are fixed.
+ * Mirrors the entry layout written by RogueMap:
+ * [Flag(1)] [Hash(4)] [ExpireAt(8)] [KeyLen(4)?] [ValLen(4)?] [Key] [Val]
+ * Zero bytes between entries are padding left by values shortened in place.
+ */
+
+const ENTRY_HEADER_SIZE = 13;
+const FLAG_ACTIVE = 1;
+const FLAG_DELETED = 2;
+const MAX_TIMESTAMP_HIGH = 0x1fffff; // ExpireAt must be a safe integer
+
+/**
+ * Fixed key/value lengths; undefined lengths are stored in every entry.
+ */
+export interface EntryLayout {
+  keyLength?: number;
+  valueLength?: number;
+}
+
+export interface SnapshotEntry {
+  offset: number;
+  length: number;
+  flag: number;
+  hash: number;
+  expireAt: number;
+  key: Buffer;
+  value: Buffer;
+}
+
+export interface SnapshotStats {
+  entries: number;
+  tombstones: number;
+  expired: number;
+  dataBytes: number;
+  liveBytes: number;
+  /**
+   * Share of the data region held by deleted or overwritten entries (0-1).
+   */
+  fragmentation: number;
+}
+
+export interface SalvageResult {
+  header: SnapshotHeader;
+  meta: SnapshotMeta;
+  /**
+   * Live entries recovered, oldest first, one per key.
+   */
+  entries: SnapshotEntry[];
+  /**
+   * Data blocks whose checksum did not match (undefined if unknown).
+   */
+  damagedBlocks?: number;
+  /**
+   * Bytes of the data region not covered by a readable entry.
+   */
+  lostBytes: number;
+  /**
+   * Why the file could not be read to the end, if it could not.
+   */
+  error?: string;
+}
+
+export function entryLayout(meta: SnapshotMeta): EntryLayout {
+  return {
+    keyLength: meta.key.fixedLength,
+    valueLength: meta.value.fixedLength,
+  };
+}
+
+/**
+ * Returns the entry at `offset`, or null if the bytes there cannot be one
+ * (unknown flag, lengths running past `end`).
+ */
+export function readEntry(
+  buffer: PagedBuffer,
+  offset: number,
+  end: number,
+  layout: EntryLayout,
+): SnapshotEntry | null {
+  if (offset < 1 || offset + ENTRY_HEADER_SIZE > end) return null;
+  const flag = buffer.readUInt8(offset);
+  if (flag !== FLAG_ACTIVE && flag !== FLAG_DELETED) return null;
+  const high = buffer.readUInt32LE(offset + 9);
+  if (high > MAX_TIMESTAMP_HIGH) return null;
+
+  let cursor = offset + ENTRY_HEADER_SIZE;
+  let keyLength = layout.keyLength;
+  let valueLength = layout.valueLength;
+  if (keyLength === undefined) {
+    if (cursor + 4 > end) return null;
+    keyLength = buffer.readInt32LE(cursor);
+    cursor += 4;
+  }
+  if (valueLength === undefined) {
+    if (cursor + 4 > end) return null;
+    valueLength = buffer.readInt32LE(cursor);
+    cursor += 4;
+  }
+  if (
+    keyLength < 0 ||
+    valueLength < 0 ||
+    cursor + keyLength + valueLength > end
+  ) {
+    return null;
+  }
+
+  return {
+    offset,
+    length: cursor + keyLength + valueLength - offset,
+    flag,
+    hash: buffer.readInt32LE(offset + 1),
+    expireAt: high * 0x100000000 + buffer.readUInt32LE(offset + 5),
+    key: buffer.readBuffer(cursor, keyLength),
+    value: buffer.readBuffer(cursor + keyLength, valueLength),
+  };
+}
+
+/**
+ * Streams a snapshot file, decompressing it if needed.
+ * Encrypted files cannot be read without their key and are rejected.
+ */
+export async function* readSnapshotFile(
+  path: string,
+): AsyncIterableIterator<Uint8Array> {
+  if (readMagic(path) === ENCRYPTION_MAGIC) {
+    throw new Error(`RogueMap: ${path} is encrypted and cannot be inspected`);
+  }
+  yield* decodeStream(
+    fs.createReadStream(path, { highWaterMark: SNAPSHOT_BLOCK_SIZE }),
+  );
+}
+
+export function isCompressedFile(path: string): boolean {
+  return readMagic(path) === COMPRESSION_MAGIC;
+}
+
+/**
+ * Compression algorithm of a compressed file, undefined for uncompressed ones.
+ */
+export function fileCompression(
+  path: string,
+): CompressionAlgorithm | undefined {
+  const header = readStart(path, COMPRESSION_HEADER_SIZE);
+  if (
+    header.length < COMPRESSION_HEADER_SIZE ||
+    header.toString("latin1", 0, 4) !== COMPRESSION_MAGIC
+  ) {
+    return undefined;
+  }
+  return algorithmFromId(header[4]);
+}
+
+/**
+ * Loads a snapshot file after checking all of its checksums.
+ * Throws RogueMapCorruptionError naming the damaged section.
+ */
+export async function loadSnapshotFile(path: string): Promise<LoadedSnapshot> {
+  const reader = new SnapshotReader();
+  for await (const chunk of readSnapshotFile(path)) {
+    reader.push(chunk);
+  }
+  reader.finish();
+  return reader.snapshot();
+}
+
+/**
+ * Live entries in bucket order. Entries that cannot be read are skipped
+ * (see verifySnapshot()).
+ */
+export function* liveEntries(
+  snapshot: LoadedSnapshot,
+  layout: EntryLayout,
+): IterableIterator<SnapshotEntry> {
+  const { header, offsets, buffer } = snapshot;
+  for (let i = 0; i < header.capacity; i++) {
+    if (offsets[i] <= 0) continue;
+    const entry = readEntry(buffer, offsets[i], header.writeOffset, layout);
+    if (entry) yield entry;
+  }
+}
+
+export function snapshotStats(
+  snapshot: LoadedSnapshot,
+  layout: EntryLayout,
+  now: number = Date.now(),
+): SnapshotStats {
+  const { header, offsets } = snapshot;
+  let tombstones = 0;
+  for (let i = 0; i < header.capacity; i++) {
+    if (offsets[i] < 0) tombstones++;
+  }
+
+  let entries = 0;
+  let expired = 0;
+  let liveBytes = 0;
+  for (const entry of liveEntries(snapshot, layout)) {
+    entries++;
+    liveBytes += entry.length;
+    if (entry.expireAt > 0 && entry.expireAt <= now) expired++;
+  }
+
+  const dataBytes = header.writeOffset - 1; // Offset 0 is reserved
+  return {
+    entries,
+    tombstones,
+    expired,
+    dataBytes,
+    liveBytes,
+    fragmentation: dataBytes > 0 ? 1 - liveBytes / dataBytes : 0,
+  };
+}
+
+/**
+ * Walks every entry of the data region and every bucket, checking flags,
+ * lengths, bucket targets and (if codecs are given) that keys and values decode.
+ * Returns the problems found, at most `limit` of them.
+ */
+export function verifySnapshot(
+  snapshot: LoadedSnapshot,
+  layout: EntryLayout,
+  codecs: { key?: Codec<any>; value?: Codec<any> } = {},
+  limit: number = 100,
+): string[] {
+  const { header, offsets, buffer } = snapshot;
+  const { capacity, writeOffset } = header;
+  const problems: string[] = [];
+  const report = (problem: string) => {
+    if (problems.length < limit) problems.push(problem);
+  };
+
+  // Entries are appended back to back, so their lengths must chain exactly
+  const starts = new Uint8Array(Math.ceil(writeOffset / 8));
+  let cursor = 1;
+  while (cursor < writeOffset) {
+    if (buffer.readUInt8(cursor) === 0) {
+      cursor++; // Padding
+      continue;
+    }
+    const entry = readEntry(buffer, cursor, writeOffset, layout);
+    if (!entry) {
+      report(`entry at offset ${cursor}: invalid flag or length`);
+      break;
+    }
+    starts[cursor >> 3] |= 1 << (cursor & 7);
+    cursor += entry.length;
+  }
+  const chained = cursor === writeOffset;
+
+  const seen = new Set<number>();
+  let active = 0;
+  for (let i = 0; i < capacity; i++) {
+    const offset = Math.abs(offsets[i]);
+    if (offset === 0) continue;
+    if (offsets[i] > 0) active++;
+
+    const entry = readEntry(buffer, offset, writeOffset, layout);
+    if (!entry || (chained && !(starts[offset >> 3] & (1 << (offset & 7))))) {
+      report(`bucket ${i}: does not point at an entry (offset ${offset})`);
+      continue;
+    }
+    if (seen.has(offset)) {
+      report(`bucket ${i}: entry at offset ${offset} is referenced twice`);
+      continue;
+    }
+    seen.add(offset);
+
+    if (offsets[i] > 0) {
+      try {
+        codecs.key?.decode(entry.key, 0, entry.key.length);
+      } catch (e: any) {
+        report(`bucket ${i}: key does not decode (${e.message})`);
+      }
+      try {
+        codecs.value?.decode(entry.value, 0, entry.value.length);
+      } catch (e: any) {
+        report(`bucket ${i}: value does not decode (${e.message})`);
+      }
+    }
+  }
+
+  if (active !== header.size) {
+    report(`header size ${header.size} does not match ${active} live buckets`);
+  }
+  return problems;
+}
+
+/**
+ * Recovers the entries that can still be read from a damaged snapshot file.
+ *
+ * The bucket table is not trusted: the data region is scanned from the start,
+ * dropping entries in blocks whose checksum fails and resynchronizing on the
+ * next plausible entry after anything unreadable. The newest live entry of
+ * each key wins. Only the header must be intact.
+ *
+ * Entries that do not decode with the built-in codecs named in the metadata
+ * are dropped too.
+ *
+ * @param fallback Codec metadata to assume for files older than version 5.
+ */
+export async function salvageSnapshot(
+  path: string,
+  fallback: SnapshotMeta,
+): Promise<SalvageResult> {
+  const chunks: Buffer[] = [];
+  let error: string | undefined;
+  try {
+    for await (const chunk of readSnapshotFile(path)) {
+      chunks.push(Buffer.from(chunk));
+    }
+  } catch (e: any) {
+    if (!(e instanceof RogueMapCorruptionError)) throw e;
+    error = e.message; // Keep what could be read
+  }
+  const data = Buffer.concat(chunks);
+
+  const header = readSnapshotHeader(data);
+  const meta = header.meta ?? fallback;
+  const layout = entryLayout(meta);
+  const keyCodec = builtinCodec(meta.key);
+  const valueCodec = builtinCodec(meta.value);
+  const blockSize = header.blockSize ?? SNAPSHOT_BLOCK_SIZE;
+  const region = data.subarray(
+    header.dataOffset,
+    header.dataOffset + header.writeOffset,
+  );
+  const end = region.length;
+  if (end < header.writeOffset && !error) {
+    error = "file is truncated";
+  }
+
+  const buffer = PagedBuffer.allocUnsafe(Math.max(end, 1));
+  buffer.writeBuffer(region, 0);
+  const damaged = damagedBlocks(data, header);
+
+  const isDamaged = (start: number, length: number) => {
+    if (!damaged) return false;
+    const last = Math.floor((start + length - 1) / blockSize);
+    for (let b = Math.floor(start / blockSize); b <= last; b++) {
+      if (damaged.has(b)) return true;
+    }
+    return false;
+  };
+  const decodes = (entry: SnapshotEntry) => {
+    try {
+      keyCodec?.decode(entry.key, 0, entry.key.length);
+      valueCodec?.decode(entry.value, 0, entry.value.length);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  };
+  // After a gap, a match must be followed by another entry (or the end)
+  const confirmed = (entry: SnapshotEntry) => {
+    let next = entry.offset + entry.length;
+    while (next < end && buffer.readUInt8(next) === 0) next++; // Padding
+    return next === end || readEntry(buffer, next, end, layout) !== null;
+  };
+
+  const live = new Map<string, SnapshotEntry>();
+  let readBytes = 0;
+  let resyncing = false;
+  let cursor = 1;
+  while (cursor + ENTRY_HEADER_SIZE <= end) {
+    if (buffer.readUInt8(cursor) === 0) {
+      cursor++; // Padding
+      continue;
+    }
+    const entry = readEntry(buffer, cursor, end, layout);
+    if (
+      entry &&
+      !isDamaged(cursor, entry.length) &&
+      (!resyncing || confirmed(entry)) &&
+      decodes(entry)
+    ) {
+      resyncing = false;
+      readBytes += entry.length;
+      const key = entry.key.toString("latin1");
+      if (entry.flag === FLAG_ACTIVE) {
+        live.delete(key); // Keep the map in write order
+        live.set(key, entry);
+      }
+      cursor += entry.length;
+      continue;
+    }
+
+    resyncing = true;
+    cursor++;
+    const block = Math.floor(cursor / blockSize);
+    if (damaged?.has(block)) cursor = (block + 1) * blockSize;
+  }
+
+  return {
+    header,
+    meta,
+    entries: Array.from(live.values()),
+    damagedBlocks: damaged?.size,
+    lostBytes: header.writeOffset - 1 - readBytes,
+    error,
+  };
+}
+
+/**
+ * Writes a fresh snapshot holding only the given entries.
+ * The bucket table is rebuilt from the hashes stored in the entries,
+ * so no codec is needed.
+ *
+ * @param minCapacity Power of two; grown until the entries fit the load factor.
+ */
+export function rebuildSnapshot(
+  entries: SnapshotEntry[],
+  meta: SnapshotMeta,
+  minCapacity: number = 16,
+): IterableIterator<Buffer> {
+  const layout = entryLayout(meta);
+  let capacity = Math.max(16, minCapacity);
+  while (entries.length >= capacity * 0.75) capacity *= 2;
+  const mask = capacity - 1;
+
+  let writeOffset = 1;
+  for (const entry of entries) {
+    writeOffset += entry.length;
+  }
+  const buffer = PagedBuffer.allocUnsafe(writeOffset);
+  buffer.writeUInt8(0, 0);
+  const offsets = new Float64Array(capacity);
+
+  let pos = 1;
+  for (const entry of entries) {
+    buffer.writeUInt8(FLAG_ACTIVE, pos);
+    buffer.writeInt32LE(entry.hash, pos + 1);
+    buffer.writeUInt32LE(entry.expireAt % 0x100000000, pos + 5);
+    buffer.writeUInt32LE(Math.floor(entry.expireAt / 0x100000000), pos + 9);
+    let cursor = pos + ENTRY_HEADER_SIZE;
+    if (layout.keyLength === undefined) {
+      buffer.writeInt32LE(entry.key.length, cursor);
+      cursor += 4;
+    }
+    if (layout.valueLength === undefined) {
+      buffer.writeInt32LE(entry.value.length, cursor);
+      cursor += 4;
+    }
+    buffer.writeBuffer(entry.key, cursor);
+    buffer.writeBuffer(entry.value, cursor + entry.key.length);
+
+    let index = Math.abs(entry.hash) & mask;
+    while (offsets[index] !== 0) index = (index + 1) & mask;
+    offsets[index] = pos;
+    pos += entry.length;
+  }
+
+  return writeSnapshot({
+    capacity,
+    size: entries.length,
+    writeOffset,
+    offsets,
+    buffer,
+    meta,
+  });
+}
+
+// Data blocks whose checksum fails, or null if the file cannot tell
+function damagedBlocks(
+  data: Buffer,
+  header: SnapshotHeader,
+): Set<number> | null {
+  const { capacity, dataOffset, writeOffset } = header;
+  const region = data.subarray(dataOffset, dataOffset + writeOffset);
+
+  if (header.blockSize === undefined) {
+    // Version 3 has one checksum for the whole region, version 2 none
+    if (header.dataCrc === undefined) return null;
+    return crc32(region) === header.dataCrc && region.length === writeOffset
+      ? new Set()
+      : null;
+  }
+
+  const blockSize = header.blockSize;
+  // The window table (version 6) has as many blocks as the bucket table
+  const tables = header.windowsOffset === undefined ? 1 : 2;
+  const tableBlocks =
+    tables * Math.ceil(capacity / Math.max(1, Math.floor(blockSize / 8)));
+  const dataBlocks = Math.ceil(writeOffset / blockSize);
+  const trailerOffset = dataOffset + writeOffset;
+  const trailerLength = (tableBlocks + dataBlocks) * 4 + 4;
+  if (data.length < trailerOffset + trailerLength) return null;
+  const trailer = data.subarray(trailerOffset, trailerOffset + trailerLength);
+  const crcEnd = trailerLength - 4;
+  if (crc32(trailer, 0, crcEnd) !== trailer.readUInt32LE(crcEnd)) return null;
+
+  const damaged = new Set<number>();
+  for (let b = 0; b < dataBlocks; b++) {
+    const start = b * blockSize;
+    const stored = trailer.readUInt32LE((tableBlocks + b) * 4);
+    if (
+      crc32(region, start, Math.min(start + blockSize, writeOffset)) !== stored
+    ) {
+      damaged.add(b);
+    }
+  }
+  return damaged;
+}
+
+/**
+ * The built-in codec described by `info`, if any.
+ */
+export function builtinCodec(info: CodecInfo): Codec<any> | undefined {
+  return info.id === undefined ? undefined : codecFromId(info.id, info.schema);
+}
+
+function readMagic(path: string): string {
+  return readStart(path, 4).toString("latin1");
+}
+
+// The first `length` bytes of the file (fewer if it is shorter)
+function readStart(path: string, length: number): Buffer {
+  const start = Buffer.alloc(length);
+  const fd = fs.openSync(path, "r");
+  try {
+    return start.subarray(0, fs.readSync(fd, start, 0, length, 0));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -25,4 +25,39 @@ export interface Codec<T> {
    * If the codec produces a fixed length, return it. Otherwise return null or undefined.
    */
   fixedLength?: number;
+
+  /**
+   * For codecs whose decoded values write back into the buffer they were
+   * read from (struct views): reports each such write into `buffer` to
+   * `onWrite`, replacing any earlier callback for that buffer.
+   * RogueMap uses it to include view writes in incremental saves.
+   */
+  watch?(
+    buffer: Buffer,
+    onWrite: (offset: number, length: number) => void,
+  ): void;
+
+  /**
+   * Stable identifier stored in snapshots (e.g. 'int32', 'struct').
+   * Lets a snapshot be checked against, or reopened with, the right codec.
+   * Leave unset for custom codecs.
+   */
+  id?: string;
+
+  /**
+   * Layout description for parameterized codecs (e.g. a struct schema as JSON).
+   * Its checksum is stored next to the id.
+   */
+  schema?: string;
+
+  /**
+   * Layout version of a versioned struct, stored next to the schema.
+   */
+  version?: number;
+
+  /**
+   * Converts a value decoded with an older version of the codec to the
+   * current one (see defineStruct()).
+   */
+  migrate?(old: any, fromVersion: number): T;
 }
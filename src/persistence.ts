@@ -1,15 +1,16 @@
 import { RogueMap, RogueMapOptions } from "./RogueMap";
+import { FileSystemAdapter } from "./persistence/fs";
 import * as fs from "fs";
 
 /**
  * Saves a RogueMap instance synchronously to a file.
+ * The file is replaced atomically (temp file + fsync + rename).
  *
  * @param map The map instance to save.
  * @param path The file path to save to.
  */
 export function saveSync<K, V>(map: RogueMap<K, V>, path: string): void {
-  const data = map.serialize();
-  fs.writeFileSync(path, data);
+  new FileSystemAdapter().saveChunksSync(map.serializeChunks(), path);
 }
 
 /**
@@ -22,12 +23,13 @@ export function loadSync<K, V>(
   path: string,
   options: RogueMapOptions<K, V> = {},
 ): RogueMap<K, V> {
-  const data = fs.readFileSync(path);
-  return RogueMap.deserialize(data, options);
+  const chunks = new FileSystemAdapter().readChunksSync(path);
+  return RogueMap.fromChunks(chunks, options);
 }
 
 /**
  * Saves the RogueMap to a file asynchronously.
+ * The file is replaced atomically (temp file + fsync + rename).
  *
  * @param map The map instance to save.
  * @param path The file path to save to.
@@ -36,8 +38,7 @@ export async function save<K, V>(
   map: RogueMap<K, V>,
   path: string,
 ): Promise<void> {
-  const data = map.serialize();
-  await fs.promises.writeFile(path, data);
+  await new FileSystemAdapter().saveChunks(map.serializeStream(), path);
 }
 
 /**
@@ -50,6 +51,5 @@ export async function load<K, V>(
   path: string,
   options: RogueMapOptions<K, V> = {},
 ): Promise<RogueMap<K, V>> {
-  const data = await fs.promises.readFile(path);
-  return RogueMap.deserialize(data, options);
+  return RogueMap.fromStream(fs.createReadStream(path), options);
 }
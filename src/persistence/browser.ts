@@ -1,5 +1,6 @@
 import { PersistenceAdapter } from "./interfaces";
 import { Buffer } from "../internal/buffer";
+import { RogueMapSyncUnsupportedError } from "../errors";
 
 /**
  * IndexedDBAdapter: Persistence adapter for Browser IndexedDB.
@@ -38,7 +39,7 @@ export class IndexedDBAdapter implements PersistenceAdapter {
   }
 
   saveSync(data: Buffer, key: string): void {
-    throw new Error("IndexedDB does not support synchronous operations.");
+    throw syncUnsupported();
   }
 
   async load(key: string): Promise<Buffer | null> {
@@ -57,10 +58,42 @@ export class IndexedDBAdapter implements PersistenceAdapter {
   }
 
   loadSync(key: string): Buffer | null {
-    throw new Error("IndexedDB does not support synchronous operations.");
+    throw syncUnsupported();
+  }
+
+  async append(data: Buffer, key: string): Promise<void> {
+    const existing = await this.load(key);
+    await this.save(existing ? Buffer.concat([existing, data]) : data, key);
+  }
+
+  appendSync(data: Buffer, key: string): void {
+    throw syncUnsupported();
+  }
+
+  async remove(key: string): Promise<void> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, "readwrite");
+      const store = tx.objectStore(this.storeName);
+      const request = store.delete(key);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve();
+    });
+  }
+
+  removeSync(key: string): void {
+    throw syncUnsupported();
   }
 }
 
+/**
+ * Stores entries base64-encoded in localStorage. Browsers allow a few MB per
+ * origin, so this (and the WAL on top of it) only suits small maps.
+ *
+ * Appended data (WAL records) goes under keys of its own (`${key}:0`,
+ * `${key}:1`, ... counted in `${key}:n`), so an append does not rewrite
+ * the whole log.
+ */
 export class LocalStorageAdapter implements PersistenceAdapter {
   save(data: Buffer, key: string): Promise<void> {
     this.saveSync(data, key);
@@ -69,6 +102,7 @@ export class LocalStorageAdapter implements PersistenceAdapter {
 
   saveSync(data: Buffer, key: string): void {
     const base64 = data.toString("base64");
+    this.removeParts(key);
     localStorage.setItem(key, base64);
   }
 
@@ -78,7 +112,51 @@ export class LocalStorageAdapter implements PersistenceAdapter {
 
   loadSync(key: string): Buffer | null {
     const base64 = localStorage.getItem(key);
-    if (!base64) return null;
-    return Buffer.from(base64, "base64");
+    const count = partCount(key);
+    if (!base64 && count === 0) return null;
+
+    const parts = base64 ? [Buffer.from(base64, "base64")] : [];
+    for (let i = 0; i < count; i++) {
+      const part = localStorage.getItem(`${key}:${i}`);
+      if (part) parts.push(Buffer.from(part, "base64"));
+    }
+    return parts.length === 1 ? parts[0] : Buffer.concat(parts);
+  }
+
+  append(data: Buffer, key: string): Promise<void> {
+    this.appendSync(data, key);
+    return Promise.resolve();
+  }
+
+  appendSync(data: Buffer, key: string): void {
+    const count = partCount(key);
+    localStorage.setItem(`${key}:${count}`, data.toString("base64"));
+    localStorage.setItem(`${key}:n`, String(count + 1));
+  }
+
+  remove(key: string): Promise<void> {
+    this.removeSync(key);
+    return Promise.resolve();
   }
+
+  removeSync(key: string): void {
+    this.removeParts(key);
+    localStorage.removeItem(key);
+  }
+
+  private removeParts(key: string): void {
+    const count = partCount(key);
+    for (let i = 0; i < count; i++) localStorage.removeItem(`${key}:${i}`);
+    localStorage.removeItem(`${key}:n`);
+  }
+}
+
+function partCount(key: string): number {
+  return Number(localStorage.getItem(`${key}:n`)) || 0;
+}
+
+function syncUnsupported(): RogueMapSyncUnsupportedError {
+  return new RogueMapSyncUnsupportedError(
+    "IndexedDB does not support synchronous operations.",
+  );
 }
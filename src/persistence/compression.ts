@@ -0,0 +1,192 @@
+import {
+  PersistenceAdapter,
+  SnapshotValidator,
+  CompressionAlgorithm,
+} from "./interfaces";
+import { Buffer } from "../internal/buffer";
+import { RogueMapCorruptionError } from "../errors";
+import { supportsWal } from "./wal";
+import {
+  COMPRESSION_MAGIC,
+  COMPRESSION_HEADER_SIZE,
+  algorithmId,
+  algorithmFromId,
+  compress,
+  compressSync,
+  decompress,
+  decompressSync,
+  compressChunks,
+  decompressChunks,
+  supportsSyncCompression,
+} from "../compression";
+
+/**
+ * CompressedAdapter: Wraps another adapter and compresses saved snapshots.
+ *
+ * Loaded data is only decompressed if it carries the compression frame,
+ * so existing uncompressed snapshots and the write-ahead log (whose records
+ * are appended as-is) pass through untouched.
+ */
+export class CompressedAdapter implements PersistenceAdapter {
+  private header: Buffer;
+
+  constructor(
+    private inner: PersistenceAdapter,
+    private algorithm: CompressionAlgorithm,
+  ) {
+    this.header = Buffer.alloc(COMPRESSION_HEADER_SIZE);
+    this.header.write(COMPRESSION_MAGIC, 0);
+    this.header.writeUInt8(algorithmId(algorithm), 4);
+    if (!supportsWal(inner)) {
+      this.append = this.appendSync = this.remove = this.removeSync = undefined;
+    }
+  }
+
+  async save(data: Buffer, key: string): Promise<void> {
+    const payload = await compress(data, this.algorithm);
+    await this.inner.save(Buffer.concat([this.header, payload]), key);
+  }
+
+  saveSync(data: Buffer, key: string): void {
+    const payload = compressSync(data, this.algorithm);
+    this.inner.saveSync(Buffer.concat([this.header, payload]), key);
+  }
+
+  async saveChunks(
+    chunks: Iterable<Buffer> | AsyncIterable<Buffer>,
+    key: string,
+  ): Promise<void> {
+    if (!this.inner.saveChunks || !supportsSyncCompression()) {
+      // No streaming available: compress the whole snapshot at once
+      const parts: Buffer[] = [];
+      for await (const chunk of chunks) parts.push(chunk);
+      return this.save(Buffer.concat(parts), key);
+    }
+    const header = this.header;
+    const payload = compressChunks(chunks, this.algorithm);
+    await this.inner.saveChunks(
+      (async function* () {
+        yield header;
+        yield* payload;
+      })(),
+      key,
+    );
+  }
+
+  async load(
+    key: string,
+    validate?: SnapshotValidator,
+  ): Promise<Buffer | null> {
+    const data = await this.inner.load(key, this.wrapValidator(validate));
+    if (!data || !isCompressed(data)) return data;
+    return decompress(
+      data.subarray(COMPRESSION_HEADER_SIZE),
+      algorithmFromId(data[4]),
+    );
+  }
+
+  loadSync(key: string, validate?: SnapshotValidator): Buffer | null {
+    const data = this.inner.loadSync(key, this.wrapValidator(validate));
+    return data ? decodeSync(data) : data;
+  }
+
+  loadStream(key: string): AsyncIterable<Uint8Array> | null {
+    if (!this.inner.loadStream || !supportsSyncCompression()) return null;
+    const source = this.inner.loadStream(key);
+    return source ? decodeStream(source) : null;
+  }
+
+  // The WAL members are only offered if the wrapped adapter has them
+
+  async append?(data: Buffer, key: string): Promise<void> {
+    await this.inner.append!(data, key);
+  }
+
+  appendSync?(data: Buffer, key: string): void {
+    this.inner.appendSync!(data, key);
+  }
+
+  async remove?(key: string): Promise<void> {
+    await this.inner.remove!(key);
+  }
+
+  removeSync?(key: string): void {
+    this.inner.removeSync!(key);
+  }
+
+  // Validators check the decompressed snapshot
+  private wrapValidator(
+    validate?: SnapshotValidator,
+  ): SnapshotValidator | undefined {
+    if (!validate) return undefined;
+    return (chunks) => {
+      try {
+        return validate([decodeSync(Buffer.concat(Array.from(chunks)))]);
+      } catch (e) {
+        return false;
+      }
+    };
+  }
+}
+
+function isCompressed(data: Uint8Array): boolean {
+  return (
+    data.length >= COMPRESSION_HEADER_SIZE &&
+    Buffer.from(data.buffer, data.byteOffset, 4).toString("latin1") ===
+      COMPRESSION_MAGIC
+  );
+}
+
+function decodeSync(data: Buffer): Buffer {
+  if (!isCompressed(data)) return data;
+  return decompressSync(
+    data.subarray(COMPRESSION_HEADER_SIZE),
+    algorithmFromId(data[4]),
+  );
+}
+
+/**
+ * Decompresses a snapshot stream if it carries the compression frame,
+ * otherwise passes it through. Peeks at the frame header, then streams
+ * the rest through the decompressor.
+ */
+export async function* decodeStream(
+  source: AsyncIterable<Uint8Array>,
+): AsyncIterableIterator<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]();
+  let head = Buffer.alloc(0);
+  while (head.length < COMPRESSION_HEADER_SIZE) {
+    const result = await iterator.next();
+    if (result.done) break;
+    head = Buffer.concat([head, result.value]);
+  }
+
+  const rest = (async function* () {
+    while (true) {
+      const result = await iterator.next();
+      if (result.done) return;
+      yield result.value;
+    }
+  })();
+
+  if (!isCompressed(head)) {
+    if (head.length > 0) yield head;
+    yield* rest;
+    return;
+  }
+
+  const payload = (async function* () {
+    if (head.length > COMPRESSION_HEADER_SIZE) {
+      yield head.subarray(COMPRESSION_HEADER_SIZE);
+    }
+    yield* rest;
+  })();
+  try {
+    yield* decompressChunks(payload, algorithmFromId(head[4]));
+  } catch (e: any) {
+    throw new RogueMapCorruptionError(
+      "data",
+      `decompression failed: ${e.message}`,
+    );
+  }
+}
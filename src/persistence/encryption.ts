@@ -0,0 +1,434 @@
+import * as crypto from "crypto";
+import {
+  PersistenceAdapter,
+  SnapshotValidator,
+  EncryptionOptions,
+} from "./interfaces";
+import { Buffer } from "../internal/buffer";
+import { supportsWal } from "./wal";
+import {
+  RogueMapEncryptionError,
+  RogueMapSyncUnsupportedError,
+} from "../errors";
+
+/**
+ * Encrypted data layout (AES-256-GCM):
+ *
+ * Snapshot, encrypted as a whole:
+ * [Magic: RENC(4)] [KeyIdLen(1)] [KeyId] [IV(12)] [Ciphertext] [Tag(16)]
+ *
+ * Appended data (WAL records), one frame per append:
+ * [Magic: RENR(4)] [FrameLen(4)] [KeyIdLen(1)] [KeyId] [IV(12)] [Ciphertext] [Tag(16)]
+ *
+ * The header up to the IV is authenticated as additional data,
+ * so the key id cannot be swapped either.
+ */
+
+export const ENCRYPTION_MAGIC = "RENC";
+const RECORD_MAGIC = "RENR";
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+const KEY_SIZE = 32;
+const ALGORITHM = "aes-256-gcm";
+
+const hasNodeCrypto = typeof crypto.createCipheriv === "function";
+
+interface Frame {
+  header: Buffer; // Authenticated, from the magic up to and including the IV
+  keyId: string;
+  iv: Buffer;
+  ciphertext: Buffer;
+  tag: Buffer;
+}
+
+/**
+ * EncryptedAdapter: Wraps another adapter and encrypts everything it stores.
+ */
+export class EncryptedAdapter implements PersistenceAdapter {
+  private keys = new Map<string, Uint8Array>();
+
+  constructor(
+    private inner: PersistenceAdapter,
+    private options: EncryptionOptions,
+  ) {
+    if (typeof options.getKey !== "function") {
+      throw new Error("RogueMap: encryption.getKey must be a function");
+    }
+    if (!supportsWal(inner)) {
+      this.append = this.appendSync = this.remove = this.removeSync = undefined;
+    }
+  }
+
+  async save(data: Buffer, key: string): Promise<void> {
+    await this.inner.save(await this.encrypt(data, ENCRYPTION_MAGIC), key);
+  }
+
+  saveSync(data: Buffer, key: string): void {
+    this.inner.saveSync(this.encryptSync(data, ENCRYPTION_MAGIC), key);
+  }
+
+  async saveChunks(
+    chunks: Iterable<Buffer> | AsyncIterable<Buffer>,
+    key: string,
+  ): Promise<void> {
+    if (!this.inner.saveChunks || !hasNodeCrypto) {
+      const parts: Buffer[] = [];
+      for await (const chunk of chunks) parts.push(chunk);
+      return this.save(Buffer.concat(parts), key);
+    }
+
+    const keyId = this.currentKeyId();
+    const secret = await this.getKey(keyId);
+    const iv = crypto.randomBytes(IV_SIZE);
+    const header = encodeHeader(ENCRYPTION_MAGIC, keyId, iv);
+    const cipher = crypto.createCipheriv(ALGORITHM, secret, iv);
+    cipher.setAAD(header);
+
+    await this.inner.saveChunks(
+      (async function* () {
+        yield header;
+        for await (const chunk of chunks) yield cipher.update(chunk);
+        yield cipher.final();
+        yield cipher.getAuthTag();
+      })(),
+      key,
+    );
+  }
+
+  async load(
+    key: string,
+    validate?: SnapshotValidator,
+  ): Promise<Buffer | null> {
+    const data = await this.inner.load(key, this.wrapValidator(validate, key));
+    return data ? this.decrypt(data, key) : data;
+  }
+
+  loadSync(key: string, validate?: SnapshotValidator): Buffer | null {
+    const data = this.inner.loadSync(key, this.wrapValidator(validate, key));
+    return data ? this.decryptSync(data, key) : data;
+  }
+
+  loadStream(key: string): AsyncIterable<Uint8Array> | null {
+    if (!this.inner.loadStream || !hasNodeCrypto) return null;
+    const source = this.inner.loadStream(key);
+    return source ? this.decryptStream(source, key) : null;
+  }
+
+  // The WAL members are only offered if the wrapped adapter has them
+
+  async append?(data: Buffer, key: string): Promise<void> {
+    await this.inner.append!(await this.encrypt(data, RECORD_MAGIC), key);
+  }
+
+  appendSync?(data: Buffer, key: string): void {
+    this.inner.appendSync!(this.encryptSync(data, RECORD_MAGIC), key);
+  }
+
+  async remove?(key: string): Promise<void> {
+    await this.inner.remove!(key);
+  }
+
+  removeSync?(key: string): void {
+    this.inner.removeSync!(key);
+  }
+
+  private currentKeyId(): string {
+    const { keyId } = this.options;
+    return (typeof keyId === "function" ? keyId() : keyId) || "default";
+  }
+
+  private async getKey(keyId: string): Promise<Uint8Array> {
+    const cached = this.keys.get(keyId);
+    if (cached) return cached;
+    return this.checkKey(keyId, await this.options.getKey(keyId));
+  }
+
+  private getKeySync(keyId: string): Uint8Array {
+    const cached = this.keys.get(keyId);
+    if (cached) return cached;
+    const secret = this.options.getKey(keyId);
+    if (secret instanceof Promise) {
+      throw new RogueMapSyncUnsupportedError(
+        "Synchronous encryption requires a synchronous getKey()",
+      );
+    }
+    return this.checkKey(keyId, secret);
+  }
+
+  private checkKey(keyId: string, secret: Uint8Array | undefined): Uint8Array {
+    if (!secret) {
+      throw new RogueMapEncryptionError(
+        `No encryption key for key id "${keyId}"`,
+      );
+    }
+    if (secret.length !== KEY_SIZE) {
+      throw new Error(
+        `RogueMap: Encryption key "${keyId}" must be ${KEY_SIZE} bytes, got ${secret.length}`,
+      );
+    }
+    this.keys.set(keyId, secret);
+    return secret;
+  }
+
+  private encryptSync(data: Buffer, magic: string): Buffer {
+    requireNodeCrypto();
+    const keyId = this.currentKeyId();
+    const secret = this.getKeySync(keyId);
+    const iv = crypto.randomBytes(IV_SIZE);
+    const header = encodeHeader(magic, keyId, iv, data.length);
+    const cipher = crypto.createCipheriv(ALGORITHM, secret, iv);
+    cipher.setAAD(header);
+    return Buffer.concat([
+      header,
+      cipher.update(data),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]);
+  }
+
+  private async encrypt(data: Buffer, magic: string): Promise<Buffer> {
+    if (hasNodeCrypto) {
+      await this.getKey(this.currentKeyId()); // Resolve async key providers
+      return this.encryptSync(data, magic);
+    }
+    const keyId = this.currentKeyId();
+    const secret = await this.getKey(keyId);
+    const iv = Buffer.from(
+      globalThis.crypto.getRandomValues(new Uint8Array(IV_SIZE)),
+    );
+    const header = encodeHeader(magic, keyId, iv, data.length);
+    const sealed = await globalThis.crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv: iv as BufferSource,
+        additionalData: header as BufferSource,
+        tagLength: TAG_SIZE * 8,
+      },
+      await importWebKey(secret),
+      data as BufferSource,
+    );
+    // WebCrypto appends the tag to the ciphertext, matching the layout
+    return Buffer.concat([header, Buffer.from(sealed)]);
+  }
+
+  private decryptSync(data: Buffer, key: string): Buffer {
+    requireNodeCrypto();
+    const parts: Buffer[] = [];
+    for (const frame of readFrames(data, key)) {
+      const decipher = crypto.createDecipheriv(
+        ALGORITHM,
+        this.getKeySync(frame.keyId),
+        frame.iv,
+      );
+      decipher.setAAD(frame.header);
+      decipher.setAuthTag(frame.tag);
+      try {
+        parts.push(decipher.update(frame.ciphertext), decipher.final());
+      } catch (e) {
+        throw decryptionFailed(key);
+      }
+    }
+    return Buffer.concat(parts);
+  }
+
+  private async decrypt(data: Buffer, key: string): Promise<Buffer> {
+    const frames = readFrames(data, key);
+    for (const frame of frames) await this.getKey(frame.keyId);
+    if (hasNodeCrypto) return this.decryptSync(data, key);
+
+    const parts: Buffer[] = [];
+    for (const frame of frames) {
+      try {
+        const plain = await globalThis.crypto.subtle.decrypt(
+          {
+            name: "AES-GCM",
+            iv: frame.iv as BufferSource,
+            additionalData: frame.header as BufferSource,
+            tagLength: TAG_SIZE * 8,
+          },
+          await importWebKey(await this.getKey(frame.keyId)),
+          Buffer.concat([frame.ciphertext, frame.tag]) as BufferSource,
+        );
+        parts.push(Buffer.from(plain));
+      } catch (e) {
+        throw decryptionFailed(key);
+      }
+    }
+    return Buffer.concat(parts);
+  }
+
+  // Streams the plaintext; the last 16 bytes are held back as the tag.
+  // Nothing is applied before the tag is verified, since the snapshot
+  // reader only commits once the stream ended without error.
+  private async *decryptStream(
+    source: AsyncIterable<Uint8Array>,
+    key: string,
+  ): AsyncIterableIterator<Uint8Array> {
+    const iterator = source[Symbol.asyncIterator]();
+    let pending = Buffer.alloc(0);
+    const fill = async (size: number) => {
+      while (pending.length < size) {
+        const result = await iterator.next();
+        if (result.done) return false;
+        pending = Buffer.concat([pending, result.value]);
+      }
+      return true;
+    };
+
+    if (
+      !(await fill(5)) ||
+      pending.toString("latin1", 0, 4) !== ENCRYPTION_MAGIC
+    ) {
+      throw notEncrypted(key);
+    }
+    const headerSize = 5 + pending[4] + IV_SIZE;
+    if (!(await fill(headerSize + TAG_SIZE))) throw decryptionFailed(key);
+
+    const header = pending.subarray(0, headerSize);
+    const keyId = header.toString("utf8", 5, 5 + header[4]);
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      await this.getKey(keyId),
+      header.subarray(headerSize - IV_SIZE),
+    );
+    decipher.setAAD(header);
+    pending = pending.subarray(headerSize);
+
+    while (true) {
+      if (pending.length > TAG_SIZE) {
+        yield decipher.update(pending.subarray(0, pending.length - TAG_SIZE));
+        pending = pending.subarray(pending.length - TAG_SIZE);
+      }
+      const result = await iterator.next();
+      if (result.done) break;
+      pending = Buffer.concat([pending, result.value]);
+    }
+
+    if (pending.length !== TAG_SIZE) throw decryptionFailed(key);
+    decipher.setAuthTag(pending);
+    try {
+      yield decipher.final();
+    } catch (e) {
+      throw decryptionFailed(key);
+    }
+  }
+
+  // Validators check the decrypted snapshot. Decryption errors are thrown,
+  // not treated as "invalid": a wrong key must not fall back to backups.
+  private wrapValidator(
+    validate: SnapshotValidator | undefined,
+    key: string,
+  ): SnapshotValidator | undefined {
+    if (!validate) return undefined;
+    return (chunks) => {
+      const data = Buffer.concat(Array.from(chunks));
+      let plain: Buffer;
+      try {
+        plain = this.decryptSync(data, key);
+      } catch (e) {
+        if (e instanceof RogueMapEncryptionError) throw e;
+        // Cannot decrypt synchronously here (async key provider or WebCrypto),
+        // load() decrypts and the snapshot reader checks it afterwards.
+        return true;
+      }
+      return validate([plain]);
+    };
+  }
+}
+
+function encodeHeader(
+  magic: string,
+  keyId: string,
+  iv: Uint8Array,
+  length: number = 0,
+): Buffer {
+  const id = Buffer.from(keyId, "utf8");
+  if (id.length > 255) {
+    throw new Error("RogueMap: Encryption key id must be at most 255 bytes");
+  }
+  const isRecord = magic === RECORD_MAGIC;
+  const header = Buffer.allocUnsafe(
+    4 + (isRecord ? 4 : 0) + 1 + id.length + IV_SIZE,
+  );
+  let cursor = header.write(magic, 0, "latin1");
+  if (isRecord) {
+    // Everything after the length field: key id, IV, ciphertext and tag
+    header.writeUInt32LE(1 + id.length + IV_SIZE + length + TAG_SIZE, cursor);
+    cursor += 4;
+  }
+  header.writeUInt8(id.length, cursor++);
+  cursor += id.copy(header, cursor);
+  Buffer.from(iv).copy(header, cursor);
+  return header;
+}
+
+// Splits stored data into encrypted frames. A torn record at the end
+// of appended data is dropped, like a torn WAL record.
+function readFrames(data: Buffer, key: string): Frame[] {
+  if (data.length === 0) return [];
+  const magic = data.toString("latin1", 0, 4);
+
+  if (magic === ENCRYPTION_MAGIC) {
+    const frame = parseFrame(data, 4, data.length);
+    if (!frame) throw decryptionFailed(key);
+    return [frame];
+  }
+  if (magic !== RECORD_MAGIC) throw notEncrypted(key);
+
+  const frames: Frame[] = [];
+  let cursor = 0;
+  while (cursor + 8 <= data.length) {
+    if (data.toString("latin1", cursor, cursor + 4) !== RECORD_MAGIC) {
+      throw decryptionFailed(key);
+    }
+    const end = cursor + 8 + data.readUInt32LE(cursor + 4);
+    if (end > data.length) break;
+    const frame = parseFrame(data.subarray(cursor, end), 8, end - cursor);
+    if (!frame) throw decryptionFailed(key);
+    frames.push(frame);
+    cursor = end;
+  }
+  return frames;
+}
+
+function parseFrame(data: Buffer, idOffset: number, end: number): Frame | null {
+  if (idOffset >= end) return null;
+  const idLen = data[idOffset];
+  const headerSize = idOffset + 1 + idLen + IV_SIZE;
+  if (headerSize + TAG_SIZE > end) return null;
+  return {
+    header: data.subarray(0, headerSize),
+    keyId: data.toString("utf8", idOffset + 1, idOffset + 1 + idLen),
+    iv: data.subarray(headerSize - IV_SIZE, headerSize),
+    ciphertext: data.subarray(headerSize, end - TAG_SIZE),
+    tag: data.subarray(end - TAG_SIZE, end),
+  };
+}
+
+async function importWebKey(secret: Uint8Array): Promise<CryptoKey> {
+  return globalThis.crypto.subtle.importKey(
+    "raw",
+    secret as BufferSource,
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+function requireNodeCrypto(): void {
+  if (!hasNodeCrypto) {
+    throw new RogueMapSyncUnsupportedError(
+      "Synchronous encryption requires Node.js crypto",
+    );
+  }
+}
+
+function decryptionFailed(key: string): RogueMapEncryptionError {
+  return new RogueMapEncryptionError(
+    `Failed to decrypt ${key} (wrong key or tampered data)`,
+  );
+}
+
+function notEncrypted(key: string): RogueMapEncryptionError {
+  return new RogueMapEncryptionError(`${key} is not encrypted`);
+}
@@ -1,38 +1,400 @@
-import { PersistenceAdapter } from "./interfaces";
+import {
+  PersistenceAdapter,
+  SnapshotValidator,
+  PatchRange,
+} from "./interfaces";
 import * as fs from "fs";
 import { Buffer } from "../internal/buffer";
 import * as path from "path";
+import { crc32 } from "../utils";
+
+const JOURNAL_MAGIC = "RJNL";
+const JOURNAL_HEADER_SIZE = 4 + 8 + 4;
+
+export interface FileSystemAdapterOptions {
+  /**
+   * Number of previous snapshots to keep (`file.1` is the newest).
+   * Default: 0
+   */
+  backups?: number;
+}
 
 /**
  * FileSystemAdapter: Persistence adapter for Node.js File System.
  * Supports both sync and async operations.
+ *
+ * Snapshots are written crash-safe: data goes to a temp file which is
+ * fsync'ed and then atomically renamed over the target.
+ * In-place patches first go to a journal (`file.journal`) that is replayed
+ * on the next load if the process died halfway through.
  */
 export class FileSystemAdapter implements PersistenceAdapter {
+  private backups: number;
+
+  constructor(options: FileSystemAdapterOptions = {}) {
+    this.backups = Math.max(0, options.backups || 0);
+  }
+
   async save(data: Buffer, filePath: string): Promise<void> {
-    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
-    await fs.promises.writeFile(filePath, data);
+    await this.saveChunks([data], filePath);
   }
 
   saveSync(data: Buffer, filePath: string): void {
+    this.saveChunksSync([data], filePath);
+  }
+
+  async saveChunks(
+    chunks: Iterable<Buffer> | AsyncIterable<Buffer>,
+    filePath: string,
+  ): Promise<void> {
+    const dir = path.dirname(filePath);
+    await fs.promises.mkdir(dir, { recursive: true });
+    // A leftover journal must not be replayed over the new snapshot
+    this.recoverSync(filePath);
+
+    const tmpPath = filePath + ".tmp";
+    try {
+      const handle = await fs.promises.open(tmpPath, "w");
+      try {
+        for await (const chunk of chunks) {
+          await handle.write(chunk);
+        }
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+
+      await this.rotate(filePath);
+      await fs.promises.rename(tmpPath, filePath);
+    } catch (e) {
+      // Failed or cancelled snapshot, the previous file is untouched
+      await fs.promises.rm(tmpPath, { force: true });
+      throw e;
+    }
+    this.syncDir(dir);
+  }
+
+  saveChunksSync(chunks: Iterable<Buffer>, filePath: string): void {
+    const dir = path.dirname(filePath);
+    fs.mkdirSync(dir, { recursive: true });
+    this.recoverSync(filePath);
+
+    const tmpPath = filePath + ".tmp";
+    try {
+      const fd = fs.openSync(tmpPath, "w");
+      try {
+        for (const chunk of chunks) {
+          fs.writeSync(fd, chunk);
+        }
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+
+      this.rotateSync(filePath);
+      fs.renameSync(tmpPath, filePath);
+    } catch (e) {
+      fs.rmSync(tmpPath, { force: true });
+      throw e;
+    }
+    this.syncDir(dir);
+  }
+
+  async load(
+    filePath: string,
+    validate?: SnapshotValidator,
+  ): Promise<Buffer | null> {
+    this.recoverSync(filePath);
+    let found = false;
+    for (const candidate of this.candidates(filePath)) {
+      let data: Buffer;
+      try {
+        data = await fs.promises.readFile(candidate);
+      } catch (e: any) {
+        if (e.code === "ENOENT") continue;
+        throw e;
+      }
+      found = true;
+      if (!validate || validate([data])) return data;
+    }
+    if (found)
+      throw new Error(`RogueMap: No valid snapshot found at ${filePath}`);
+    return null;
+  }
+
+  loadSync(filePath: string, validate?: SnapshotValidator): Buffer | null {
+    this.recoverSync(filePath);
+    let found = false;
+    for (const candidate of this.candidates(filePath)) {
+      let data: Buffer;
+      try {
+        data = fs.readFileSync(candidate);
+      } catch (e: any) {
+        if (e.code === "ENOENT") continue;
+        throw e;
+      }
+      found = true;
+      if (!validate || validate([data])) return data;
+    }
+    if (found)
+      throw new Error(`RogueMap: No valid snapshot found at ${filePath}`);
+    return null;
+  }
+
+  loadChunksSync(
+    filePath: string,
+    validate?: SnapshotValidator,
+  ): Iterable<Buffer> | null {
+    this.recoverSync(filePath);
+    let found = false;
+    for (const candidate of this.candidates(filePath)) {
+      if (!fs.existsSync(candidate)) continue;
+      found = true;
+      // Validation is a separate streaming pass, so memory stays bounded
+      if (!validate || validate(this.readChunksSync(candidate))) {
+        return this.readChunksSync(candidate);
+      }
+    }
+    if (found)
+      throw new Error(`RogueMap: No valid snapshot found at ${filePath}`);
+    return null;
+  }
+
+  loadStream(filePath: string): AsyncIterable<Buffer> | null {
+    this.recoverSync(filePath);
+    if (!fs.existsSync(filePath)) return null;
+    return fs.createReadStream(filePath, { highWaterMark: 1024 * 1024 });
+  }
+
+  /**
+   * Reads a file sequentially in chunks of `chunkSize` bytes.
+   */
+  *readChunksSync(
+    filePath: string,
+    chunkSize: number = 1024 * 1024,
+  ): IterableIterator<Buffer> {
+    const fd = fs.openSync(filePath, "r");
+    try {
+      while (true) {
+        const chunk = Buffer.allocUnsafe(chunkSize);
+        const bytesRead = fs.readSync(fd, chunk, 0, chunkSize, null);
+        if (bytesRead === 0) return;
+        yield bytesRead < chunkSize ? chunk.subarray(0, bytesRead) : chunk;
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  async patch(
+    ranges: PatchRange[],
+    length: number,
+    filePath: string,
+  ): Promise<void> {
+    const journalPath = filePath + ".journal";
+
+    // 1. Journal the patch, so a crash while applying it can be redone on load
+    const handle = await fs.promises.open(journalPath, "w");
+    try {
+      for (const chunk of encodeJournal(ranges, length)) {
+        await handle.write(chunk);
+      }
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    this.syncDir(path.dirname(filePath));
+
+    // 2. Apply it in place
+    const file = await fs.promises.open(filePath, "r+");
+    try {
+      for (const range of ranges) {
+        await file.write(range.data, 0, range.data.length, range.offset);
+      }
+      await file.truncate(length);
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+
+    // 3. Done, the journal is no longer needed
+    await fs.promises.rm(journalPath, { force: true });
+  }
+
+  async append(data: Buffer, filePath: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(filePath, data);
+  }
+
+  appendSync(data: Buffer, filePath: string): void {
     fs.mkdirSync(path.dirname(filePath), { recursive: true });
-    fs.writeFileSync(filePath, data);
+    fs.appendFileSync(filePath, data);
   }
 
-  async load(filePath: string): Promise<Buffer | null> {
+  async remove(filePath: string): Promise<void> {
+    await fs.promises.rm(filePath, { force: true });
+  }
+
+  removeSync(filePath: string): void {
+    fs.rmSync(filePath, { force: true });
+  }
+
+  /**
+   * Finishes an incremental save interrupted by a crash, replaying a pending
+   * `${filePath}.journal` into the file. Loads and saves do this first.
+   * A torn journal means the patch never started to apply: it is dropped.
+   */
+  recoverSync(filePath: string): void {
+    const journalPath = filePath + ".journal";
+    let journal: Buffer;
     try {
-      return await fs.promises.readFile(filePath);
+      journal = fs.readFileSync(journalPath);
     } catch (e: any) {
-      if (e.code === "ENOENT") return null;
+      if (e.code === "ENOENT") return;
       throw e;
     }
+
+    const patch = decodeJournal(journal);
+    if (patch && fs.existsSync(filePath)) {
+      const fd = fs.openSync(filePath, "r+");
+      try {
+        for (const range of patch.ranges) {
+          fs.writeSync(fd, range.data, 0, range.data.length, range.offset);
+        }
+        fs.ftruncateSync(fd, patch.length);
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+    }
+    fs.rmSync(journalPath, { force: true });
+  }
+
+  // Newest first: the file itself, then file.1 ... file.N
+  private candidates(filePath: string): string[] {
+    const paths = [filePath];
+    for (let i = 1; i <= this.backups; i++) {
+      paths.push(`${filePath}.${i}`);
+    }
+    return paths;
   }
 
-  loadSync(filePath: string): Buffer | null {
+  // Shift file.1 -> file.2 ... dropping the oldest generation, then copy
+  // the file to file.1. The file itself is only replaced by the rename of
+  // the new snapshot, so the path exists at every point of a save.
+  // A copy rather than a hard link, as patches write to the file in place.
+  private async rotate(filePath: string): Promise<void> {
+    if (this.backups === 0) return;
+    for (let i = this.backups - 1; i >= 1; i--) {
+      try {
+        await fs.promises.rename(`${filePath}.${i}`, `${filePath}.${i + 1}`);
+      } catch (e: any) {
+        if (e.code !== "ENOENT") throw e;
+      }
+    }
     try {
-      return fs.readFileSync(filePath);
+      await fs.promises.copyFile(
+        filePath,
+        `${filePath}.1`,
+        fs.constants.COPYFILE_FICLONE,
+      );
     } catch (e: any) {
-      if (e.code === "ENOENT") return null;
-      throw e;
+      if (e.code !== "ENOENT") throw e;
     }
   }
+
+  private rotateSync(filePath: string): void {
+    if (this.backups === 0) return;
+    for (let i = this.backups - 1; i >= 1; i--) {
+      try {
+        fs.renameSync(`${filePath}.${i}`, `${filePath}.${i + 1}`);
+      } catch (e: any) {
+        if (e.code !== "ENOENT") throw e;
+      }
+    }
+    try {
+      fs.copyFileSync(filePath, `${filePath}.1`, fs.constants.COPYFILE_FICLONE);
+    } catch (e: any) {
+      if (e.code !== "ENOENT") throw e;
+    }
+  }
+
+  // Persist the rename itself. Not supported on every platform (e.g. Windows).
+  private syncDir(dir: string): void {
+    try {
+      const fd = fs.openSync(dir, "r");
+      try {
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch (e) {
+      // Best effort
+    }
+  }
+}
+
+/**
+ * Journal layout:
+ * [Magic: RJNL(4)][FileLength: 8][RangeCount: 4]
+ * [Offset: 8][Length: 4][Data] per range
+ * [CRC32: 4] of everything before it
+ */
+function* encodeJournal(
+  ranges: PatchRange[],
+  length: number,
+): Iterable<Buffer> {
+  const header = Buffer.allocUnsafe(JOURNAL_HEADER_SIZE);
+  header.write(JOURNAL_MAGIC, 0);
+  writeUInt64(header, length, 4);
+  header.writeUInt32LE(ranges.length, 12);
+  let crc = crc32(header);
+  yield header;
+
+  for (const range of ranges) {
+    const head = Buffer.allocUnsafe(12);
+    writeUInt64(head, range.offset, 0);
+    head.writeUInt32LE(range.data.length, 8);
+    crc = crc32(range.data, 0, range.data.length, crc32(head, 0, 12, crc));
+    yield head;
+    yield range.data;
+  }
+
+  const trailer = Buffer.allocUnsafe(4);
+  trailer.writeUInt32LE(crc, 0);
+  yield trailer;
+}
+
+function decodeJournal(
+  data: Buffer,
+): { ranges: PatchRange[]; length: number } | null {
+  if (
+    data.length < JOURNAL_HEADER_SIZE + 4 ||
+    data.toString("utf8", 0, 4) !== JOURNAL_MAGIC ||
+    crc32(data, 0, data.length - 4) !== data.readUInt32LE(data.length - 4)
+  ) {
+    return null;
+  }
+
+  const length = readUInt64(data, 4);
+  const count = data.readUInt32LE(12);
+  const ranges: PatchRange[] = [];
+  let cursor = JOURNAL_HEADER_SIZE;
+  for (let i = 0; i < count; i++) {
+    const offset = readUInt64(data, cursor);
+    const len = data.readUInt32LE(cursor + 8);
+    cursor += 12;
+    ranges.push({ offset, data: data.subarray(cursor, cursor + len) });
+    cursor += len;
+  }
+  return { ranges, length };
+}
+
+function readUInt64(buf: Buffer, offset: number): number {
+  return buf.readUInt32LE(offset + 4) * 0x100000000 + buf.readUInt32LE(offset);
+}
+
+function writeUInt64(buf: Buffer, value: number, offset: number): void {
+  buf.writeUInt32LE(value % 0x100000000, offset);
+  buf.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
 }
@@ -1,3 +1,18 @@
+/**
+ * Checks whether loaded data is a complete, readable snapshot.
+ * Adapters that keep several generations use it to pick the newest valid one.
+ * Data is passed as chunks so large files never need a single Buffer.
+ */
+export type SnapshotValidator = (chunks: Iterable<Uint8Array>) => boolean;
+
+/**
+ * Bytes to write at an offset of a stored entry.
+ */
+export interface PatchRange {
+  offset: number;
+  data: Buffer;
+}
+
 export interface PersistenceAdapter {
   /**
    * Save data to storage.
@@ -9,15 +24,90 @@ export interface PersistenceAdapter {
    */
   saveSync(data: Buffer, key: string): void;
 
+  /**
+   * Save data given as a sequence of chunks (optional).
+   * Lets large snapshots be written without a single giant Buffer.
+   */
+  saveChunks?(
+    chunks: Iterable<Buffer> | AsyncIterable<Buffer>,
+    key: string,
+  ): Promise<void>;
+
+  /**
+   * Save chunked data synchronously (optional).
+   */
+  saveChunksSync?(chunks: Iterable<Buffer>, key: string): void;
+
   /**
    * Load data from storage.
    */
-  load(key: string): Promise<Buffer | null>;
+  load(key: string, validate?: SnapshotValidator): Promise<Buffer | null>;
 
   /**
    * Load data synchronously (if supported).
    */
-  loadSync(key: string): Buffer | null;
+  loadSync(key: string, validate?: SnapshotValidator): Buffer | null;
+
+  /**
+   * Load data synchronously as a sequence of chunks (optional).
+   */
+  loadChunksSync?(
+    key: string,
+    validate?: SnapshotValidator,
+  ): Iterable<Buffer> | null;
+
+  /**
+   * Open the stored entry as a stream of chunks (optional).
+   * Returns null if the entry does not exist. The stream is not validated;
+   * callers fall back to load() with a validator if reading it fails.
+   */
+  loadStream?(key: string): AsyncIterable<Uint8Array> | null;
+
+  /**
+   * Overwrite byte ranges of the stored entry in place and set its length (optional).
+   * Must be all-or-nothing across crashes. Used for incremental snapshots.
+   */
+  patch?(ranges: PatchRange[], length: number, key: string): Promise<void>;
+
+  /**
+   * Append data to the end of the stored entry, creating it if missing (optional).
+   * This and the three members below are required for the write-ahead log.
+   */
+  append?(data: Buffer, key: string): Promise<void>;
+
+  /**
+   * Append data synchronously (optional, may throw if unsupported).
+   */
+  appendSync?(data: Buffer, key: string): void;
+
+  /**
+   * Remove the stored entry. Missing entries are ignored (optional).
+   */
+  remove?(key: string): Promise<void>;
+
+  /**
+   * Remove the stored entry synchronously (optional, may throw if unsupported).
+   */
+  removeSync?(key: string): void;
+}
+
+export type CompressionAlgorithm = "gzip" | "deflate" | "brotli";
+
+export interface EncryptionOptions {
+  /**
+   * Key provider: returns the 32-byte AES-256 key for a key id.
+   * Called for the current key id when writing, and for the id stored
+   * in the data when reading. May be async, but synchronous loading and
+   * WAL appends then fall back to their async variants.
+   */
+  getKey(keyId: string): Uint8Array | Promise<Uint8Array>;
+
+  /**
+   * Id of the key used for new writes. Default: 'default'.
+   * To rotate keys, switch to a new id while getKey() still returns the old key:
+   * existing data stays readable and is re-encrypted on the next save.
+   */
+  keyId?: string | (() => string);
 }
 
 export type PersistenceType =
@@ -50,6 +140,57 @@ export interface PersistenceOptions {
    * Default: true for 'fs', false for others.
    */
   syncLoad?: boolean;
+
+  /**
+   * Enable the append-only write-ahead log (WAL).
+   * Every set/delete/clear/expire is appended to `${path}.wal` and replayed
+   * on top of the last snapshot when loading. The log is truncated whenever
+   * a new snapshot is saved. A failed append throws from the write; async
+   * adapters (e.g. IndexedDB) report it through the map's "error" event.
+   * Writes through struct views (`map.get(key).field = x`) are not logged:
+   * they are only persisted by the next snapshot, `set()` the value instead.
+   * Default: false
+   */
+  wal?: boolean;
+
+  /**
+   * Number of previous snapshots to keep alongside the file
+   * (e.g. `data.db.1`, `data.db.2`). On load, the newest valid one is used.
+   * Only supported by the 'fs' adapter.
+   * Default: 0
+   */
+  backups?: number;
+
+  /**
+   * Only write the parts of the snapshot that changed since the last save.
+   * Changed 64KB blocks of the bucket table and data region are patched into
+   * the file in place, through a journal so a crash never leaves it torn.
+   * A full snapshot is still written first, and after resize, compaction or clear().
+   * Backups are only rotated on full snapshots.
+   * Only supported by the 'fs' adapter; others always write full snapshots.
+   * Default: false
+   */
+  incremental?: boolean;
+
+  /**
+   * Compress snapshots before handing them to the adapter.
+   * Node.js supports all algorithms through zlib; browsers use CompressionStream
+   * (no brotli, and only asynchronous loading via init()).
+   * Uncompressed snapshots are still read, so compression can be turned on later.
+   * Not combined with `incremental` (compressed snapshots are always written in full).
+   * Default: none
+   */
+  compression?: CompressionAlgorithm;
+
+  /**
+   * Encrypt snapshots and WAL records with AES-256-GCM
+   * (Node.js crypto, or WebCrypto in browsers).
+   * Loading data encrypted with a wrong key, tampered or unencrypted data
+   * throws a RogueMapEncryptionError.
+   * Not combined with `incremental` (encrypted snapshots are always written in full).
+   * Default: none
+   */
+  encryption?: EncryptionOptions;
 }
 
 export interface CompactionOptions {
@@ -1,19 +1,46 @@
-import { PersistenceAdapter, PersistenceType } from "./interfaces";
-import { FileSystemAdapter } from "./fs";
+import {
+  PersistenceAdapter,
+  PersistenceOptions,
+  PersistenceType,
+} from "./interfaces";
+import { FileSystemAdapter, FileSystemAdapterOptions } from "./fs";
 import { IndexedDBAdapter, LocalStorageAdapter } from "./browser";
+import { CompressedAdapter } from "./compression";
+import { EncryptedAdapter } from "./encryption";
 
 /**
  * PersistenceManager: Factory for creating persistence adapters.
  */
 export class PersistenceManager {
-  static getAdapter(type: PersistenceType = "auto"): PersistenceAdapter {
+  /**
+   * Creates the adapter described by the persistence options,
+   * wrapped for encryption and compression if configured
+   * (data is compressed first, then encrypted).
+   */
+  static fromOptions(options: PersistenceOptions): PersistenceAdapter {
+    let adapter = PersistenceManager.getAdapter(options.type, {
+      backups: options.backups,
+    });
+    if (options.encryption) {
+      adapter = new EncryptedAdapter(adapter, options.encryption);
+    }
+    if (options.compression) {
+      adapter = new CompressedAdapter(adapter, options.compression);
+    }
+    return adapter;
+  }
+
+  static getAdapter(
+    type: PersistenceType = "auto",
+    options: FileSystemAdapterOptions = {},
+  ): PersistenceAdapter {
     if (type === "auto") {
       if (
         typeof process !== "undefined" &&
         process.versions &&
         process.versions.node
       ) {
-        return new FileSystemAdapter();
+        return new FileSystemAdapter(options);
       }
       if (typeof indexedDB !== "undefined") {
         return new IndexedDBAdapter();
@@ -26,7 +53,7 @@ export class PersistenceManager {
 
     switch (type) {
       case "fs":
-        return new FileSystemAdapter();
+        return new FileSystemAdapter(options);
       case "indexeddb":
         return new IndexedDBAdapter();
       case "localstorage":
@@ -37,6 +64,10 @@ export class PersistenceManager {
           saveSync: () => {},
           load: async () => null,
           loadSync: () => null,
+          append: async () => {},
+          appendSync: () => {},
+          remove: async () => {},
+          removeSync: () => {},
         };
       default:
         throw new Error(`Unknown persistence type: ${type}`);
@@ -0,0 +1,181 @@
+import { Buffer } from "../internal/buffer";
+import { PersistenceAdapter } from "./interfaces";
+
+/**
+ * Write-Ahead Log (WAL) record encoding.
+ *
+ * Every record is framed so a torn tail (crash mid-append) can be detected
+ * and ignored on replay:
+ *
+ * [RecordLen(4)] [Op(1)] [Payload]
+ *
+ * SET:    [ExpireAt(8)] [KeyLen(4)] [Key] [Val]
+ * DELETE: [Key]
+ * CLEAR:  (empty)
+ * EXPIRE: [ExpireAt(8)] [Key]
+ * SET_SLIDING:    [ExpireAt(8)] [Window(8)] [KeyLen(4)] [Key] [Val]
+ * EXPIRE_SLIDING: [ExpireAt(8)] [Window(8)] [Key]
+ *
+ * The sliding variants are written for entries with a sliding TTL (Window,
+ * a Float64LE in ms) and read back as SET/EXPIRE records with `window` set.
+ *
+ * RecordLen covers Op + Payload. Keys and values are stored codec-encoded.
+ */
+
+export const WAL_OP_SET = 1;
+export const WAL_OP_DELETE = 2;
+export const WAL_OP_CLEAR = 3;
+export const WAL_OP_EXPIRE = 4;
+export const WAL_OP_SET_SLIDING = 5;
+export const WAL_OP_EXPIRE_SLIDING = 6;
+
+export type WalRecord =
+  | {
+      op: typeof WAL_OP_SET;
+      key: Buffer;
+      value: Buffer;
+      expireAt: number;
+      window: number;
+    }
+  | { op: typeof WAL_OP_DELETE; key: Buffer }
+  | { op: typeof WAL_OP_CLEAR }
+  | { op: typeof WAL_OP_EXPIRE; key: Buffer; expireAt: number; window: number };
+
+/**
+ * Encodes a SET record (`window` > 0 for a sliding TTL).
+ */
+export function encodeSetRecord(
+  key: Buffer,
+  value: Buffer,
+  expireAt: number,
+  window: number = 0,
+): Buffer {
+  const sliding = window > 0;
+  const bodyLen = 1 + 8 + (sliding ? 8 : 0) + 4 + key.length + value.length;
+  const record = Buffer.allocUnsafe(4 + bodyLen);
+  let cursor = 0;
+  record.writeUInt32LE(bodyLen, cursor);
+  cursor += 4;
+  record.writeUInt8(sliding ? WAL_OP_SET_SLIDING : WAL_OP_SET, cursor);
+  cursor += 1;
+  record.writeUInt32LE(expireAt % 0x100000000, cursor);
+  record.writeUInt32LE(Math.floor(expireAt / 0x100000000), cursor + 4);
+  cursor += 8;
+  if (sliding) {
+    record.writeDoubleLE(window, cursor);
+    cursor += 8;
+  }
+  record.writeUInt32LE(key.length, cursor);
+  cursor += 4;
+  key.copy(record, cursor);
+  cursor += key.length;
+  value.copy(record, cursor);
+  return record;
+}
+
+/**
+ * Encodes a DELETE record.
+ */
+export function encodeDeleteRecord(key: Buffer): Buffer {
+  const bodyLen = 1 + key.length;
+  const record = Buffer.allocUnsafe(4 + bodyLen);
+  record.writeUInt32LE(bodyLen, 0);
+  record.writeUInt8(WAL_OP_DELETE, 4);
+  key.copy(record, 5);
+  return record;
+}
+
+/**
+ * Encodes a CLEAR record.
+ */
+export function encodeClearRecord(): Buffer {
+  const record = Buffer.allocUnsafe(5);
+  record.writeUInt32LE(1, 0);
+  record.writeUInt8(WAL_OP_CLEAR, 4);
+  return record;
+}
+
+/**
+ * Encodes an EXPIRE record (expiry of an existing key changed, 0 = never;
+ * `window` > 0 if the entry keeps sliding).
+ */
+export function encodeExpireRecord(
+  key: Buffer,
+  expireAt: number,
+  window: number = 0,
+): Buffer {
+  const sliding = window > 0;
+  const bodyLen = 1 + 8 + (sliding ? 8 : 0) + key.length;
+  const record = Buffer.allocUnsafe(4 + bodyLen);
+  record.writeUInt32LE(bodyLen, 0);
+  record.writeUInt8(sliding ? WAL_OP_EXPIRE_SLIDING : WAL_OP_EXPIRE, 4);
+  record.writeUInt32LE(expireAt % 0x100000000, 5);
+  record.writeUInt32LE(Math.floor(expireAt / 0x100000000), 9);
+  if (sliding) record.writeDoubleLE(window, 13);
+  key.copy(record, sliding ? 21 : 13);
+  return record;
+}
+
+/**
+ * Iterates the records of a WAL buffer in order.
+ * Stops silently at the first incomplete or unknown record (torn tail).
+ */
+export function* readWalRecords(data: Buffer): IterableIterator<WalRecord> {
+  let cursor = 0;
+  while (cursor + 5 <= data.length) {
+    const bodyLen = data.readUInt32LE(cursor);
+    const end = cursor + 4 + bodyLen;
+    if (bodyLen < 1 || end > data.length) return;
+
+    const op = data.readUInt8(cursor + 4);
+    const body = cursor + 5;
+
+    if (op === WAL_OP_SET || op === WAL_OP_SET_SLIDING) {
+      const extra = op === WAL_OP_SET_SLIDING ? 8 : 0;
+      if (bodyLen < 1 + 8 + extra + 4) return;
+      const low = data.readUInt32LE(body);
+      const high = data.readUInt32LE(body + 4);
+      const keyLen = data.readUInt32LE(body + 8 + extra);
+      const keyStart = body + 12 + extra;
+      if (keyStart + keyLen > end) return;
+      yield {
+        op: WAL_OP_SET,
+        expireAt: high * 0x100000000 + low,
+        window: extra ? data.readDoubleLE(body + 8) : 0,
+        key: data.subarray(keyStart, keyStart + keyLen),
+        value: data.subarray(keyStart + keyLen, end),
+      };
+    } else if (op === WAL_OP_DELETE) {
+      yield { op: WAL_OP_DELETE, key: data.subarray(body, end) };
+    } else if (op === WAL_OP_CLEAR) {
+      yield { op: WAL_OP_CLEAR };
+    } else if (op === WAL_OP_EXPIRE || op === WAL_OP_EXPIRE_SLIDING) {
+      const extra = op === WAL_OP_EXPIRE_SLIDING ? 8 : 0;
+      if (bodyLen < 1 + 8 + extra) return;
+      const low = data.readUInt32LE(body);
+      const high = data.readUInt32LE(body + 4);
+      yield {
+        op: WAL_OP_EXPIRE,
+        expireAt: high * 0x100000000 + low,
+        window: extra ? data.readDoubleLE(body + 8) : 0,
+        key: data.subarray(body + 8 + extra, end),
+      };
+    } else {
+      return;
+    }
+
+    cursor = end;
+  }
+}
+
+/**
+ * Whether the adapter has the members the write-ahead log writes through.
+ */
+export function supportsWal(adapter: PersistenceAdapter): boolean {
+  return !!(
+    adapter.append &&
+    adapter.appendSync &&
+    adapter.remove &&
+    adapter.removeSync
+  );
+}
@@ -1,32 +1,121 @@
-
 import { Buffer } from "./internal/buffer";
 import { Codec } from "./interfaces";
 
 /**
- * Supported field types for Struct definition.
+ * Scalar field types for Struct definition.
  */
-export type FieldType = 
-  | 'int8' | 'uint8' 
-  | 'int16' | 'uint16' 
-  | 'int32' | 'uint32' 
+export type ScalarFieldType =
+  | 'int8' | 'uint8'
+  | 'int16' | 'uint16'
+  | 'int32' | 'uint32'
+  | 'int64' | 'uint64' // bigint
+  | 'float32'
   | 'float64' | 'double'
   | 'boolean'
+  | 'date' // Millisecond timestamp, read as a Date
+  | 'uuid' // 16 raw bytes, read as the canonical string
+  | `enum(${string})` // String literals stored as an index, e.g., 'enum(admin,user)'
   | `string(${number})`; // Fixed length string, e.g., 'string(20)'
 
+/**
+ * Variable-length field types, stored after the fixed fields.
+ * 'string' is UTF-8, 'bytes' a Buffer and 'json' any JSON value.
+ */
+export type VariableFieldType = 'string' | 'bytes' | 'json';
+
+/**
+ * Supported field types for Struct definition.
+ * A `[N]` suffix declares a fixed-size array, e.g., 'float64[8]'.
+ */
+export type FieldType =
+  | ScalarFieldType
+  | `${ScalarFieldType}[${number}]`
+  | VariableFieldType;
+
+/**
+ * Field that may be missing, see optional().
+ */
+export interface OptionalField<T extends FieldDefinition> {
+  $optional: T;
+}
+
+/**
+ * Field that may be null, see nullable().
+ */
+export interface NullableField<T extends FieldDefinition> {
+  $nullable: T;
+}
+
+/**
+ * Anything a struct field can be declared as.
+ */
+export type FieldDefinition =
+  | FieldType
+  | StructSchema
+  | Codec<any>
+  | OptionalField<any>
+  | NullableField<any>;
+
 /**
  * Schema definition for a Struct.
+ * Fields can also be nested schemas or codecs returned by defineStruct().
+ */
+export interface StructSchema {
+  [field: string]: FieldDefinition;
+}
+
+/**
+ * Marks a struct field as optional: a missing value reads back as undefined.
  */
-export type StructSchema = Record<string, FieldType>;
+export function optional<const T extends FieldDefinition>(type: T): OptionalField<T> {
+  return { $optional: type };
+}
+
+/**
+ * Marks a struct field as nullable: a null (or missing) value reads back as null.
+ */
+export function nullable<const T extends FieldDefinition>(type: T): NullableField<T> {
+  return { $nullable: type };
+}
+
+type Trim<S extends string> =
+  S extends ` ${infer R}` ? Trim<R> :
+  S extends `${infer R} ` ? Trim<R> :
+  S;
+
+type EnumValues<S extends string> =
+  S extends `${infer Head},${infer Rest}` ? Trim<Head> | EnumValues<Rest> : Trim<S>;
+
+type InferField<F> =
+  0 extends 1 & F ? any : // F is any, e.g., a schema parsed from JSON
+  F extends Codec<infer U> ? U :
+  F extends OptionalField<infer X> ? InferField<X> :
+  F extends NullableField<infer X> ? InferField<X> | null :
+  F extends `${infer E}[${number}]` ? InferField<E>[] :
+  F extends StructSchema ? InferStruct<F> :
+  F extends `enum(${infer L})` ? EnumValues<L> :
+  F extends 'boolean' ? boolean :
+  F extends 'int64' | 'uint64' ? bigint :
+  F extends 'date' ? Date :
+  F extends `string(${number})` | 'string' | 'uuid' ? string :
+  F extends 'bytes' ? Buffer :
+  F extends 'json' ? any :
+  number;
 
 /**
  * Infer TypeScript type from StructSchema.
  */
-export type InferStruct<T extends StructSchema> = {
-  [K in keyof T]: 
-    T[K] extends 'boolean' ? boolean :
-    T[K] extends `string(${number})` ? string :
-    number;
-};
+export type InferStruct<T extends StructSchema> = Simplify<{
+  [K in Exclude<keyof T, OptionalKeys<T>>]: InferField<T[K]>;
+} & {
+  [K in OptionalKeys<T>]?: InferField<T[K]>;
+}>;
+
+type OptionalKeys<T> = {
+  [K in keyof T]: T[K] extends OptionalField<any> ? K : never;
+}[keyof T];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
 
 interface FieldMeta {
   name: string;
@@ -34,145 +123,213 @@ interface FieldMeta {
   offset: number;
   size: number;
   // Codec helpers
-  read: (buf: Buffer, offset: number) => any;
+  read: (buf: Buffer, offset: number) => any; // Lazy view for structs and arrays
+  write: (buf: Buffer, offset: number, val: any) => void;
+  plain: (buf: Buffer, offset: number) => any; // Fully decoded copy (toJSON)
+  variable?: VariableCodec; // Set for variable-length fields, see compileLayout()
+  // Presence bits of optional and nullable fields (set = a value is stored)
+  optionalBit?: number;
+  nullableBit?: number;
+}
+
+interface VariableCodec {
+  byteLength: (val: any) => number;
   write: (buf: Buffer, offset: number, val: any) => void;
+  read: (buf: Buffer, start: number, end: number) => any;
+}
+
+type FieldCodec = Omit<FieldMeta, 'name' | 'offset' | 'optionalBit' | 'nullableBit'> & {
+  schema: any; // Normalized definition, nested codecs replaced by their schema
+  optional?: boolean;
+  nullable?: boolean;
+};
+
+interface Layout {
+  fields: FieldMeta[];
+  byName: Map<string, FieldMeta>;
+  variable: FieldMeta[];
+  size: number; // Fixed fields and offset table
+  handler: ProxyHandler<any>;
+  schema: Record<string, any>;
+}
+
+/**
+ * Versioning options for defineStruct().
+ */
+export interface StructOptions<T> {
+  /**
+   * Layout version, stored with persisted maps. Bump it when the schema changes:
+   * maps saved with an older version are migrated when they are loaded.
+   */
+  version: number;
+  /**
+   * Converts a value saved with an older version, given as a plain object.
+   * Default: fields are matched by name, new fields start missing.
+   */
+  migrate?: (old: any, fromVersion: number) => T;
+}
+
+// Writes through views, reported per buffer (see Codec.watch)
+const writeHooks = new WeakMap<Buffer, (offset: number, length: number) => void>();
+
+function written(buffer: Buffer, offset: number, length: number): void {
+  const hook = writeHooks.get(buffer);
+  if (hook) hook(offset, length);
 }
 
 /**
  * Creates a Struct Codec for zero-copy access to structured data.
- * 
+ *
  * @param schema The structure definition.
+ * @param options Optional version and migration of older layouts.
  * @returns A Codec that encodes objects into a fixed binary layout and decodes them as lazy views.
  */
-export function defineStruct<T extends StructSchema>(schema: T): Codec<InferStruct<T>> {
+export function defineStruct<T extends StructSchema>(
+  schema: T,
+  options?: StructOptions<InferStruct<T>>
+): Codec<InferStruct<T>> {
+  const layout = compileLayout(schema);
+  const structSize = layout.size;
+  const fixed = layout.variable.length === 0;
+  const migrate = options?.migrate;
+
+  return {
+    encode(value: any, buffer: Buffer, offset: number): number {
+      return writeStruct(layout, buffer, offset, value);
+    },
+
+    decode(buffer: Buffer, offset: number, length?: number): InferStruct<T> {
+      // Return a Proxy wrapping the buffer slice info
+      // We pass a lightweight context object
+      const context = { buffer, offset };
+      return new Proxy(context, layout.handler);
+    },
+
+    byteLength(value: any): number {
+      if (fixed) return structSize;
+      let size = structSize;
+      for (const field of layout.variable) {
+        const v = value[field.name];
+        if (v !== undefined) size += field.variable!.byteLength(v);
+      }
+      return size;
+    },
+
+    fixedLength: fixed ? structSize : undefined,
+
+    watch(buffer: Buffer, onWrite: (offset: number, length: number) => void): void {
+      writeHooks.set(buffer, onWrite);
+    },
+
+    id: 'struct',
+
+    schema: JSON.stringify(layout.schema),
+
+    ...(options && {
+      version: options.version,
+      // `old` is a view of the old layout: copy it out before the buffer is reused
+      migrate(old: any, fromVersion: number): InferStruct<T> {
+        const plain = typeof old?.toJSON === 'function' ? old.toJSON() : old;
+        return migrate ? migrate(plain, fromVersion) : plain;
+      }
+    })
+  };
+}
+
+// Layout: [Presence bitmap][Fixed fields][End offset of each variable field (uint32)][Variable data]
+// The bitmap has a bit per optional or nullable modifier and is left out
+// when there are none. End offsets are relative to the start of the struct,
+// so fixed fields keep their positions whatever the variable data holds.
+function compileLayout(schema: StructSchema): Layout {
   const fields: FieldMeta[] = [];
-  let currentOffset = 0;
+  const variable: FieldMeta[] = [];
+  const normalized: Record<string, any> = {};
+  let bits = 0;
 
   for (const [name, typeDef] of Object.entries(schema)) {
-    let size = 0;
-    let read: (b: Buffer, o: number) => any;
-    let write: (b: Buffer, o: number, v: any) => void;
-
-    if (typeDef === 'int8') {
-      size = 1;
-      read = (b, o) => b.readInt8(o);
-      write = (b, o, v) => b.writeInt8(v, o);
-    } else if (typeDef === 'uint8') {
-      size = 1;
-      read = (b, o) => b.readUInt8(o);
-      write = (b, o, v) => b.writeUInt8(v, o);
-    } else if (typeDef === 'int16') {
-      size = 2;
-      read = (b, o) => b.readInt16LE(o);
-      write = (b, o, v) => b.writeInt16LE(v, o);
-    } else if (typeDef === 'uint16') {
-      size = 2;
-      read = (b, o) => b.readUInt16LE(o);
-      write = (b, o, v) => b.writeUInt16LE(v, o);
-    } else if (typeDef === 'int32') {
-      size = 4;
-      read = (b, o) => b.readInt32LE(o);
-      write = (b, o, v) => b.writeInt32LE(v, o);
-    } else if (typeDef === 'uint32') {
-      size = 4;
-      read = (b, o) => b.readUInt32LE(o);
-      write = (b, o, v) => b.writeUInt32LE(v, o);
-    } else if (typeDef === 'float64' || typeDef === 'double') {
-      size = 8;
-      read = (b, o) => b.readDoubleLE(o);
-      write = (b, o, v) => b.writeDoubleLE(v, o);
-    } else if (typeDef === 'boolean') {
-      size = 1;
-      read = (b, o) => b.readUInt8(o) !== 0;
-      write = (b, o, v) => b.writeUInt8(v ? 1 : 0, o);
-    } else if (typeDef.startsWith('string(')) {
-      const match = typeDef.match(/string\((\d+)\)/);
-      if (!match) throw new Error(`Invalid string type: ${typeDef}`);
-      const len = parseInt(match[1], 10);
-      size = len;
-      // Fixed string: Read zero-padded or full length
-      read = (b, o) => {
-        // Find null terminator or end
-        let end = o + len;
-        // Optimization: Don't scan if we assume padded with nulls, 
-        // but to be correct standard C-string behavior:
-        // Actually Buffer.toString strips nulls? No.
-        // We trim nulls manually for better experience.
-        const str = b.toString('utf8', o, o + len);
-        // Remove trailing nulls
-        // eslint-disable-next-line no-control-regex
-        return str.replace(/\u0000+$/, '');
-      };
-      write = (b, o, v) => {
-        const str = String(v);
-        const written = b.write(str, o, len, 'utf8');
-        // Pad remaining with 0
-        if (written < len) {
-          b.fill(0, o + written, o + len);
-        }
-      };
+    const field = compileField(typeDef);
+    const meta: FieldMeta = {
+      name,
+      type: field.type,
+      offset: 0,
+      size: field.size,
+      read: field.read,
+      write: field.write,
+      plain: field.plain,
+      variable: field.variable
+    };
+    if (field.optional) meta.optionalBit = bits++;
+    if (field.nullable) meta.nullableBit = bits++;
+    fields.push(meta);
+    normalized[name] = field.schema;
+  }
+
+  let currentOffset = Math.ceil(bits / 8);
+  for (const meta of fields) {
+    if (meta.variable) {
+      variable.push(meta);
     } else {
-      throw new Error(`Unsupported field type: ${typeDef}`);
+      meta.offset = currentOffset;
+      currentOffset += meta.size;
     }
+  }
 
-    fields.push({
-      name,
-      type: typeDef,
-      offset: currentOffset,
-      size,
-      read,
-      write
-    });
-
-    currentOffset += size;
+  // Variable fields own a slot in the offset table
+  for (const meta of variable) {
+    meta.offset = currentOffset;
+    currentOffset += 4;
   }
 
-  const structSize = currentOffset;
+  const layout: Layout = {
+    fields,
+    byName: new Map(fields.map(f => [f.name, f])),
+    variable,
+    size: currentOffset,
+    handler: {},
+    schema: normalized
+  };
 
   // The Proxy Handler for Lazy Decoding
-  const proxyHandler: ProxyHandler<any> = {
+  layout.handler = {
     get(target, prop) {
       // target is { buffer, offset }
       if (typeof prop !== 'string') return undefined;
-      
+
       // If user calls toJSON or inspect, we should return full object
       if (prop === 'toJSON') {
-        return () => {
-          const res: any = {};
-          for(const f of fields) {
-            res[f.name] = f.read(target.buffer, target.offset + f.offset);
-          }
-          return res;
-        };
+        return () => toPlain(layout, target.buffer, target.offset);
       }
 
-      // Find field
-      // Optimization: Could use a Map for faster lookup if many fields
-      const field = fields.find(f => f.name === prop);
+      const field = layout.byName.get(prop);
       if (!field) return undefined;
 
-      return field.read(target.buffer, target.offset + field.offset);
+      return readField(layout, field, target.buffer, target.offset);
     },
-    
+
     // Support writing back to buffer
     set(target, prop, value) {
       if (typeof prop !== 'string') return false;
 
-      const field = fields.find(f => f.name === prop);
+      const field = layout.byName.get(prop);
       if (!field) return false;
+      if (field.variable) {
+        throw new Error(`Cannot update variable-length field '${prop}' in place, set() the whole value instead`);
+      }
 
       // In-Place Update: Write directly to buffer
-      field.write(target.buffer, target.offset + field.offset, value);
+      writeField(field, target.buffer, target.offset, value);
+      written(target.buffer, target.offset, layout.size); // Presence bits included
       return true;
     },
 
-    ownKeys() {
-        return fields.map(f => f.name);
+    // Missing optional fields are left out, like absent properties
+    ownKeys(target) {
+        return fields.filter(f => !isMissing(f, target.buffer, target.offset)).map(f => f.name);
     },
 
     getOwnPropertyDescriptor(target, prop) {
-        const field = fields.find(f => f.name === prop);
-        if (field) {
+        const field = typeof prop === 'string' ? layout.byName.get(prop) : undefined;
+        if (field && !isMissing(field, target.buffer, target.offset)) {
             return {
                 enumerable: true,
                 configurable: true,
@@ -184,31 +341,374 @@ export function defineStruct<T extends StructSchema>(schema: T): Codec<InferStru
     }
   };
 
+  return layout;
+}
+
+// Returns the number of bytes written
+function writeStruct(layout: Layout, buffer: Buffer, offset: number, value: any): number {
+  let end = layout.size;
+  for (const field of layout.fields) {
+    const v = value[field.name];
+    if (field.variable) {
+      // Missing values are stored empty
+      if (setPresence(field, buffer, offset, v)) {
+        const length = field.variable.byteLength(v);
+        field.variable.write(buffer, offset + end, v);
+        end += length;
+      }
+      buffer.writeUInt32LE(end, offset + field.offset);
+    } else {
+      writeField(field, buffer, offset, v);
+    }
+  }
+  return end;
+}
+
+function toPlain(layout: Layout, buffer: Buffer, offset: number): any {
+  const res: any = {};
+  for (const f of layout.fields) {
+    if (!isMissing(f, buffer, offset)) res[f.name] = readField(layout, f, buffer, offset, true);
+  }
+  return res;
+}
+
+// Reads a field of the struct at `offset`, lazily unless `plain` is set
+function readField(layout: Layout, field: FieldMeta, buffer: Buffer, offset: number, plain = false): any {
+  if (field.optionalBit !== undefined && !hasBit(buffer, offset, field.optionalBit)) return undefined;
+  if (field.nullableBit !== undefined && !hasBit(buffer, offset, field.nullableBit)) return null;
+  if (field.variable) return readVariable(layout, field, buffer, offset);
+  return plain ? field.plain(buffer, offset + field.offset) : field.read(buffer, offset + field.offset);
+}
+
+// Writes a fixed field of the struct at `offset`; missing values are zero-filled
+function writeField(field: FieldMeta, buffer: Buffer, offset: number, value: any): void {
+  if (setPresence(field, buffer, offset, value)) {
+    field.write(buffer, offset + field.offset, value);
+  } else {
+    // Fill 0?
+    buffer.fill(0, offset + field.offset, offset + field.offset + field.size);
+  }
+}
+
+// Updates the presence bits for `value`; returns whether it has to be stored
+function setPresence(field: FieldMeta, buffer: Buffer, offset: number, value: any): boolean {
+  if (field.optionalBit !== undefined) setBit(buffer, offset, field.optionalBit, value !== undefined);
+  if (field.nullableBit !== undefined) {
+    const present = value !== undefined && value !== null;
+    setBit(buffer, offset, field.nullableBit, present);
+    return present;
+  }
+  return value !== undefined;
+}
+
+function isMissing(field: FieldMeta, buffer: Buffer, offset: number): boolean {
+  return field.optionalBit !== undefined && !hasBit(buffer, offset, field.optionalBit);
+}
+
+function hasBit(buffer: Buffer, offset: number, bit: number): boolean {
+  return (buffer[offset + (bit >>> 3)] & (1 << (bit & 7))) !== 0;
+}
+
+function setBit(buffer: Buffer, offset: number, bit: number, on: boolean): void {
+  const i = offset + (bit >>> 3);
+  buffer[i] = on ? buffer[i] | (1 << (bit & 7)) : buffer[i] & ~(1 << (bit & 7));
+}
+
+// A variable field starts where the previous one ends (or after the offset table)
+function readVariable(layout: Layout, field: FieldMeta, buffer: Buffer, offset: number): any {
+  const start = field.offset === layout.variable[0].offset
+    ? layout.size
+    : buffer.readUInt32LE(offset + field.offset - 4);
+  const end = buffer.readUInt32LE(offset + field.offset);
+  return field.variable!.read(buffer, offset + start, offset + end);
+}
+
+function compileField(typeDef: FieldDefinition): FieldCodec {
+  if (typeof typeDef === 'object') {
+    if (isModifier(typeDef)) return compileModifier(typeDef);
+    return compileNested(typeDef);
+  }
+  if (typeDef === 'string' || typeDef === 'bytes' || typeDef === 'json') {
+    return compileVariable(typeDef);
+  }
+
+  const array = typeDef.match(/^(.+)\[(\d+)\]$/);
+  if (array) {
+    return compileArray(array[1] as FieldType, parseInt(array[2], 10));
+  }
+
+  let size = 0;
+  let read: (b: Buffer, o: number) => any;
+  let write: (b: Buffer, o: number, v: any) => void;
+
+  if (typeDef === 'int8') {
+    size = 1;
+    read = (b, o) => b.readInt8(o);
+    write = (b, o, v) => b.writeInt8(v, o);
+  } else if (typeDef === 'uint8') {
+    size = 1;
+    read = (b, o) => b.readUInt8(o);
+    write = (b, o, v) => b.writeUInt8(v, o);
+  } else if (typeDef === 'int16') {
+    size = 2;
+    read = (b, o) => b.readInt16LE(o);
+    write = (b, o, v) => b.writeInt16LE(v, o);
+  } else if (typeDef === 'uint16') {
+    size = 2;
+    read = (b, o) => b.readUInt16LE(o);
+    write = (b, o, v) => b.writeUInt16LE(v, o);
+  } else if (typeDef === 'int32') {
+    size = 4;
+    read = (b, o) => b.readInt32LE(o);
+    write = (b, o, v) => b.writeInt32LE(v, o);
+  } else if (typeDef === 'uint32') {
+    size = 4;
+    read = (b, o) => b.readUInt32LE(o);
+    write = (b, o, v) => b.writeUInt32LE(v, o);
+  } else if (typeDef === 'int64') {
+    size = 8;
+    read = (b, o) => b.readBigInt64LE(o);
+    write = (b, o, v) => b.writeBigInt64LE(BigInt(v), o);
+  } else if (typeDef === 'uint64') {
+    size = 8;
+    read = (b, o) => b.readBigUInt64LE(o);
+    write = (b, o, v) => b.writeBigUInt64LE(BigInt(v), o);
+  } else if (typeDef === 'float32') {
+    size = 4;
+    read = (b, o) => b.readFloatLE(o);
+    write = (b, o, v) => b.writeFloatLE(v, o);
+  } else if (typeDef === 'date') {
+    size = 8;
+    read = (b, o) => new Date(b.readDoubleLE(o));
+    write = (b, o, v) => b.writeDoubleLE(v instanceof Date ? v.getTime() : Number(v), o);
+  } else if (typeDef === 'uuid') {
+    size = 16;
+    read = (b, o) => {
+      const hex = b.toString('hex', o, o + 16);
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    };
+    write = (b, o, v) => {
+      const hex = String(v).replace(/-/g, '');
+      if (!/^[0-9a-fA-F]{32}$/.test(hex)) throw new Error(`Invalid uuid: ${v}`);
+      b.write(hex, o, 16, 'hex');
+    };
+  } else if (typeDef.startsWith('enum(')) {
+    const match = typeDef.match(/^enum\((.*)\)$/);
+    if (!match) throw new Error(`Invalid enum type: ${typeDef}`);
+    const values = match[1].split(',').map(v => v.trim());
+    if (values.length > 0x10000) throw new Error(`Too many enum values: ${typeDef}`);
+    const indexes = new Map(values.map((v, i) => [v, i]));
+    // Index of the value: uint8 up to 256 values, uint16 above
+    size = values.length > 0x100 ? 2 : 1;
+    read = size === 1
+      ? (b, o) => values[b.readUInt8(o)]
+      : (b, o) => values[b.readUInt16LE(o)];
+    write = (b, o, v) => {
+      const index = indexes.get(v);
+      if (index === undefined) throw new Error(`Invalid enum value '${v}' for ${typeDef}`);
+      if (size === 1) b.writeUInt8(index, o);
+      else b.writeUInt16LE(index, o);
+    };
+  } else if (typeDef === 'float64' || typeDef === 'double') {
+    size = 8;
+    read = (b, o) => b.readDoubleLE(o);
+    write = (b, o, v) => b.writeDoubleLE(v, o);
+  } else if (typeDef === 'boolean') {
+    size = 1;
+    read = (b, o) => b.readUInt8(o) !== 0;
+    write = (b, o, v) => b.writeUInt8(v ? 1 : 0, o);
+  } else if (typeDef.startsWith('string(')) {
+    const match = typeDef.match(/string\((\d+)\)/);
+    if (!match) throw new Error(`Invalid string type: ${typeDef}`);
+    const len = parseInt(match[1], 10);
+    size = len;
+    // Fixed string: Read zero-padded or full length
+    read = (b, o) => {
+      // Find null terminator or end
+      let end = o + len;
+      // Optimization: Don't scan if we assume padded with nulls,
+      // but to be correct standard C-string behavior:
+      // Actually Buffer.toString strips nulls? No.
+      // We trim nulls manually for better experience.
+      const str = b.toString('utf8', o, o + len);
+      // Remove trailing nulls
+      // eslint-disable-next-line no-control-regex
+      return str.replace(/\u0000+$/, '');
+    };
+    write = (b, o, v) => {
+      const str = String(v);
+      const written = b.write(str, o, len, 'utf8');
+      // Pad remaining with 0
+      if (written < len) {
+        b.fill(0, o + written, o + len);
+      }
+    };
+  } else {
+    throw new Error(`Unsupported field type: ${typeDef}`);
+  }
+
+  return { type: typeDef, size, read, write, plain: read, schema: typeDef };
+}
+
+// optional() / nullable(): the inner type plus a presence bit, see compileLayout()
+// A wrapper from optional() or nullable(), not a schema with a single field
+function isModifier(typeDef: object): typeDef is OptionalField<any> | NullableField<any> {
+  const keys = Object.keys(typeDef);
+  return keys.length === 1 && (keys[0] === '$optional' || keys[0] === '$nullable');
+}
+
+function compileModifier(typeDef: OptionalField<any> | NullableField<any>): FieldCodec {
+  const key = '$optional' in typeDef ? '$optional' : '$nullable';
+  const inner = compileField('$optional' in typeDef ? typeDef.$optional : typeDef.$nullable);
+  const flag = key === '$optional' ? 'optional' : 'nullable';
+  if (inner[flag]) throw new Error(`Unsupported field type: ${flag} is applied twice`);
+  return { ...inner, [flag]: true, schema: { [key]: inner.schema } };
+}
+
+// Nested struct: a plain schema or a codec from defineStruct()
+function compileNested(typeDef: StructSchema | Codec<any>): FieldCodec {
+  let schema = typeDef as StructSchema;
+  if (typeof typeDef.encode === 'function') {
+    const codec = typeDef as Codec<any>;
+    if (codec.id !== 'struct' || codec.schema === undefined) {
+      throw new Error('Unsupported field type: only struct codecs can be nested');
+    }
+    schema = JSON.parse(codec.schema);
+  }
+
+  const layout = compileLayout(schema);
+  if (layout.variable.length > 0) {
+    throw new Error('Unsupported field type: nested structs cannot have variable-length fields');
+  }
   return {
-    encode(value: any, buffer: Buffer, offset: number): number {
-      for (const field of fields) {
-        const v = value[field.name];
-        if (v === undefined) {
-            // Fill 0?
-            buffer.fill(0, offset + field.offset, offset + field.offset + field.size);
-        } else {
-            field.write(buffer, offset + field.offset, v);
-        }
+    type: 'struct',
+    size: layout.size,
+    read: (b, o) => new Proxy({ buffer: b, offset: o }, layout.handler),
+    write: (b, o, v) => writeStruct(layout, b, o, v),
+    plain: (b, o) => toPlain(layout, b, o),
+    schema: layout.schema
+  };
+}
+
+// Fixed-size array: `length` elements stored back to back
+function compileArray(elementType: FieldType, length: number): FieldCodec {
+  const element = compileField(elementType);
+  if (element.variable) {
+    throw new Error(`Unsupported field type: ${elementType}[${length}] (array elements need a fixed length)`);
+  }
+  const stride = element.size;
+
+  const plain = (b: Buffer, o: number) => {
+    const res = new Array(length);
+    for (let i = 0; i < length; i++) res[i] = element.plain(b, o + i * stride);
+    return res;
+  };
+
+  // Array index for a property key, or -1
+  const indexOf = (prop: string) => {
+    const i = Number(prop);
+    return Number.isInteger(i) && i >= 0 && i < length && String(i) === prop ? i : -1;
+  };
+
+  // Lazy array view: indexed reads and writes go straight to the buffer
+  const handler: ProxyHandler<any> = {
+    get(target, prop) {
+      if (prop === 'length') return length;
+      if (prop === Symbol.iterator) {
+        return function* () {
+          for (let i = 0; i < length; i++) yield element.read(target.buffer, target.offset + i * stride);
+        };
       }
-      return structSize;
+      if (typeof prop !== 'string') return undefined;
+      if (prop === 'toJSON') return () => plain(target.buffer, target.offset);
+
+      const i = indexOf(prop);
+      if (i !== -1) return element.read(target.buffer, target.offset + i * stride);
+      // Generic array methods (map, forEach, join...) work through length and indices
+      return Reflect.get(Array.prototype, prop);
     },
 
-    decode(buffer: Buffer, offset: number, length?: number): InferStruct<T> {
-      // Return a Proxy wrapping the buffer slice info
-      // We pass a lightweight context object
-      const context = { buffer, offset };
-      return new Proxy(context, proxyHandler);
+    set(target, prop, value) {
+      const i = typeof prop === 'string' ? indexOf(prop) : -1;
+      if (i === -1) return false;
+      element.write(target.buffer, target.offset + i * stride, value);
+      written(target.buffer, target.offset + i * stride, stride);
+      return true;
+    },
+
+    has(target, prop) {
+      return prop === 'length' || (typeof prop === 'string' && indexOf(prop) !== -1);
     },
 
-    byteLength(): number {
-      return structSize;
+    ownKeys() {
+      return Array.from({ length }, (_, i) => String(i));
+    },
+
+    getOwnPropertyDescriptor(target, prop) {
+      const i = typeof prop === 'string' ? indexOf(prop) : -1;
+      if (i === -1) return undefined;
+      return {
+        value: element.read(target.buffer, target.offset + i * stride),
+        writable: true,
+        enumerable: true,
+        configurable: true
+      };
+    }
+  };
+
+  return {
+    type: `${element.type}[${length}]`,
+    size: stride * length,
+    read: (b, o) => new Proxy({ buffer: b, offset: o }, handler),
+    write: (b, o, v) => {
+      for (let i = 0; i < length; i++) {
+        const item = v[i];
+        if (item === undefined) {
+          b.fill(0, o + i * stride, o + (i + 1) * stride);
+        } else {
+          element.write(b, o + i * stride, item);
+        }
+      }
     },
+    plain,
+    schema: `${element.schema}[${length}]`
+  };
+}
+
+// Variable-length field: read and write go through the offset table, see compileLayout()
+function compileVariable(typeDef: VariableFieldType): FieldCodec {
+  let variable: VariableCodec;
+  if (typeDef === 'string') {
+    variable = {
+      byteLength: v => Buffer.byteLength(String(v), 'utf8'),
+      write: (b, o, v) => { b.write(String(v), o, 'utf8'); },
+      read: (b, start, end) => b.toString('utf8', start, end)
+    };
+  } else if (typeDef === 'bytes') {
+    variable = {
+      byteLength: v => v.length,
+      write: (b, o, v) => { Buffer.from(v.buffer, v.byteOffset, v.length).copy(b, o); },
+      // Copy: a view would keep the whole page alive
+      read: (b, start, end) => Buffer.from(b.subarray(start, end))
+    };
+  } else {
+    variable = {
+      byteLength: v => Buffer.byteLength(JSON.stringify(v), 'utf8'),
+      write: (b, o, v) => { b.write(JSON.stringify(v), o, 'utf8'); },
+      read: (b, start, end) => start === end ? undefined : JSON.parse(b.toString('utf8', start, end))
+    };
+  }
 
-    fixedLength: structSize
+  const unsupported = () => {
+    throw new Error(`Unsupported field type: ${typeDef} is only allowed as a top-level field`);
+  };
+  return {
+    type: typeDef,
+    size: 4,
+    read: unsupported,
+    write: unsupported,
+    plain: unsupported,
+    variable,
+    schema: typeDef
   };
 }
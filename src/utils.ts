@@ -148,3 +148,42 @@ export function numberHash(num: number): number {
   num = num ^ (num >>> 16);
   return num >>> 0;
 }
+
+let crcTable: Int32Array | null = null;
+
+function getCrcTable(): Int32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Int32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c;
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE 802.3) checksum.
+ * Can be computed incrementally by passing the previous result as `crc`.
+ *
+ * @param data The bytes to checksum.
+ * @param start Start offset (default 0).
+ * @param end End offset, exclusive (default data.length).
+ * @param crc Running checksum of the preceding bytes (default 0).
+ * @returns A 32-bit unsigned checksum.
+ */
+export function crc32(
+  data: Uint8Array,
+  start: number = 0,
+  end: number = data.length,
+  crc: number = 0,
+): number {
+  const table = getCrcTable();
+  let c = ~crc;
+  for (let i = start; i < end; i++) {
+    c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return ~c >>> 0;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { CachePolicy, createCache } from "../src/cache";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import { murmurHash3 } from "../src/utils";
+
+// Reads 50 hot keys repeatedly, then scans 500 cold keys once.
+// Returns the hot keys evicted from the cache by the scan.
+function scanEvictions(policy: CachePolicy) {
+  const map = new RogueMap<string, number>({
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+    cacheSize: 100,
+    cachePolicy: policy,
+  });
+  for (let i = 0; i < 2000; i++) map.set(`cold${i}`, i);
+  for (let i = 0; i < 50; i++) map.set(`hot${i}`, i);
+  for (let round = 0; round < 5; round++) {
+    for (let i = 0; i < 50; i++) map.get(`hot${i}`);
+  }
+
+  const evicted: string[] = [];
+  map.on("evict", (key) => evicted.push(key));
+  for (let i = 0; i < 500; i++) {
+    expect(map.get(`cold${i}`)).toBe(i);
+  }
+  return evicted.filter((key) => key.startsWith("hot"));
+}
+
+describe("Hot cache policies", () => {
+  it("should let a scan flush the lru cache", () => {
+    expect(scanEvictions("lru")).toHaveLength(50);
+  });
+
+  it("should keep frequently read values in the tinylfu cache", () => {
+    expect(scanEvictions("tinylfu")).toHaveLength(0);
+  });
+
+  it("should admit a new value once it is read more than the victim", () => {
+    const evicted: string[] = [];
+    const cache = createCache<string, number>(
+      "tinylfu",
+      10,
+      (key) => murmurHash3(key),
+      (key) => evicted.push(key),
+    );
+    for (let i = 0; i < 10; i++) cache.set(`k${i}`, i);
+    expect(cache.size).toBe(10);
+
+    cache.set("new", 1); // Pushes k9 out of the window, no more frequent than k0
+    expect(cache.size).toBe(10);
+    expect(evicted).toEqual(["k9"]);
+
+    for (let i = 0; i < 3; i++) cache.get("x"); // Misses still count
+    cache.set("x", 2);
+    cache.set("y", 3);
+    expect(cache.get("x")).toBe(2);
+    expect(cache.size).toBe(10);
+  });
+
+  it("should support updates, deletes and tiny capacities", () => {
+    const cache = createCache<string, number>(
+      "tinylfu",
+      1,
+      (key) => murmurHash3(key),
+      () => {},
+    );
+    cache.set("a", 1);
+    cache.set("a", 2);
+    expect(cache.get("a")).toBe(2);
+    cache.set("b", 3);
+    expect(cache.size).toBe(1);
+    cache.delete("b");
+    expect(cache.size).toBe(0);
+    cache.set("c", 4);
+    cache.clear();
+    expect(cache.get("c")).toBeUndefined();
+  });
+
+  it("should reject unknown policies", () => {
+    expect(
+      () => new RogueMap({ cacheSize: 10, cachePolicy: "mru" as any }),
+    ).toThrow(/Unknown cache policy/);
+  });
+});
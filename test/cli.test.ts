@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { saveSync, loadSync } from "../src/persistence";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import { readSnapshotHeader } from "../src/format";
+import { main } from "../src/cli";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "cli_map.db");
+const OUT_FILE = TEMP_FILE + ".out";
+const REPAIRED_FILE = TEMP_FILE + ".repaired";
+const JOURNAL_FILE = TEMP_FILE + ".journal";
+
+function cleanup() {
+  for (const file of [TEMP_FILE, OUT_FILE, REPAIRED_FILE, JOURNAL_FILE]) {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+}
+
+async function run(...argv: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const code = await main(argv, {
+    stdout: (text) => (stdout += text),
+    stderr: (text) => (stderr += text),
+  });
+  return { code, stdout, stderr };
+}
+
+function createFile(count: number, deleted: number = 0) {
+  const map = new RogueMap<string, number>({
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+  });
+  for (let i = 0; i < count; i++) map.set(`key${i}`, i);
+  for (let i = 0; i < deleted; i++) map.delete(`key${i}`);
+  saveSync(map, TEMP_FILE);
+}
+
+function load(file: string) {
+  return loadSync<string, number>(file, {
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+  });
+}
+
+describe("rogue-map CLI", () => {
+  beforeEach(cleanup);
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanup();
+  });
+
+  it("should print header and space usage", async () => {
+    createFile(10, 5);
+    const { code, stdout } = await run("info", TEMP_FILE);
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/format version: 5/);
+    expect(stdout).toMatch(/size:\s+5/);
+    expect(stdout).toMatch(/tombstones:\s+5/);
+    expect(stdout).toMatch(/fragmentation:\s+50\.0%/);
+    expect(stdout).toMatch(/value codec:\s+int32 \(4 bytes\)/);
+  });
+
+  it("should verify intact files and report damaged ones", async () => {
+    createFile(10);
+    expect((await run("verify", TEMP_FILE)).stdout).toMatch(
+      /OK \(10 entries\)/,
+    );
+
+    const data = fs.readFileSync(TEMP_FILE);
+    data[readSnapshotHeader(data).dataOffset + 20] ^= 0xff;
+    fs.writeFileSync(TEMP_FILE, data);
+
+    const { code, stderr } = await run("verify", TEMP_FILE);
+    expect(code).toBe(1);
+    expect(stderr).toMatch(/Corrupted snapshot data/);
+    expect(stderr).toMatch(/rogue-map repair/);
+  });
+
+  it("should dump live entries as JSON lines", async () => {
+    createFile(3, 1);
+    const { code, stdout } = await run("dump", TEMP_FILE, "--format", "jsonl");
+    expect(code).toBe(0);
+
+    const records = stdout
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records).toHaveLength(2);
+    expect(records).toContainEqual({ key: "key2", value: 2 });
+
+    expect((await run("dump", TEMP_FILE, "--format", "csv")).code).toBe(2);
+  });
+
+  it("should compact away deleted entries", async () => {
+    createFile(1000, 900);
+    const { code } = await run("compact", TEMP_FILE, "--out", OUT_FILE);
+    expect(code).toBe(0);
+    expect(fs.statSync(OUT_FILE).size).toBeLessThan(
+      fs.statSync(TEMP_FILE).size,
+    );
+
+    const map = load(OUT_FILE);
+    expect(map.size).toBe(100);
+    expect(map.get("key950")).toBe(950);
+    expect(map.has("key5")).toBe(false);
+    map.set("key5", 5); // Still writable after the rebuild
+    expect(map.get("key5")).toBe(5);
+  });
+
+  it("should apply a pending journal before compacting", async () => {
+    const map = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      persistence: { path: TEMP_FILE, type: "fs", incremental: true },
+    });
+    for (let i = 0; i < 100; i++) map.set(`key${i}`, i);
+    await map.save();
+    const before = fs.readFileSync(TEMP_FILE);
+
+    // A committed patch whose ranges never reached the file
+    const rm = fs.promises.rm;
+    vi.spyOn(fs.promises, "rm").mockImplementation(async (file, options) => {
+      if (file !== JOURNAL_FILE) await rm(file, options);
+    });
+    map.set("key1", -1);
+    await map.save();
+    vi.restoreAllMocks();
+    fs.writeFileSync(TEMP_FILE, before);
+
+    expect((await run("compact", TEMP_FILE)).code).toBe(0);
+    expect(fs.existsSync(JOURNAL_FILE)).toBe(false);
+    expect(load(TEMP_FILE).get("key1")).toBe(-1);
+  });
+
+  it("should keep the compression of the file", async () => {
+    const options = {
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      persistence: {
+        path: TEMP_FILE,
+        type: "fs" as const,
+        compression: "gzip" as const,
+      },
+    };
+    const map = new RogueMap<string, number>(options);
+    for (let i = 0; i < 1000; i++) map.set(`key${i}`, i);
+    for (let i = 0; i < 900; i++) map.delete(`key${i}`);
+    await map.save();
+
+    const { code, stdout } = await run("compact", TEMP_FILE);
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/bytes \(gzip\)/);
+    expect(fs.readFileSync(TEMP_FILE).toString("latin1", 0, 4)).toBe("RCMP");
+    const compacted = new RogueMap<string, number>(options);
+    expect(compacted.size).toBe(100);
+    expect(compacted.get("key950")).toBe(950);
+  });
+
+  it("should salvage entries outside a damaged data block", async () => {
+    createFile(100000); // Data region spans several 1MB blocks
+    const data = fs.readFileSync(TEMP_FILE);
+    const header = readSnapshotHeader(data);
+    data[header.dataOffset + header.writeOffset - 100] ^= 0xff;
+    fs.writeFileSync(TEMP_FILE, data);
+    expect((await run("verify", TEMP_FILE)).code).toBe(1);
+
+    const { code, stdout } = await run("repair", TEMP_FILE);
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/damaged blocks: 1/);
+
+    const map = load(REPAIRED_FILE);
+    expect(map.size).toBeGreaterThan(50000);
+    expect(map.size).toBeLessThan(100000);
+    let mismatched = 0;
+    for (const [key, value] of map.entries()) {
+      if (key !== `key${value}`) mismatched++;
+    }
+    expect(mismatched).toBe(0);
+  });
+
+  it("should rebuild the table when the bucket table is damaged", async () => {
+    createFile(50, 10);
+    const data = fs.readFileSync(TEMP_FILE);
+    const header = readSnapshotHeader(data);
+    data.fill(0xff, header.bucketsOffset, header.dataOffset);
+    fs.writeFileSync(TEMP_FILE, data);
+
+    expect((await run("repair", TEMP_FILE, "--out", OUT_FILE)).code).toBe(0);
+    const map = load(OUT_FILE);
+    expect(map.size).toBe(40);
+    expect(map.get("key49")).toBe(49);
+    expect(map.has("key0")).toBe(false);
+  });
+
+  it("should fail on usage errors", async () => {
+    expect((await run()).code).toBe(2);
+    expect((await run("frobnicate", TEMP_FILE)).code).toBe(2);
+    expect((await run("info", TEMP_FILE)).code).toBe(2); // Missing file
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { ManualClock } from "../src/clock";
+
+function createMap(clock: ManualClock) {
+  return new RogueMap<string, number>({ ttl: 1000, clock: clock.now });
+}
+
+describe("RogueMap clock option", () => {
+  it("should expire entries by the injected clock", () => {
+    const clock = new ManualClock(5000);
+    const map = createMap(clock);
+    map.set("a", 1);
+    map.set("b", 2, { ttl: 3000 });
+
+    expect(map.getExpireAt("a")).toBe(6000);
+    clock.advance(1000);
+    expect(map.get("a")).toBe(1);
+    clock.advance(1);
+    expect(map.get("a")).toBeUndefined();
+    expect(map.has("b")).toBe(true);
+    expect(map.getTTL("b")).toBe(1999);
+
+    clock.set(100000);
+    expect(map.has("b")).toBe(false);
+  });
+
+  it("should be used by iterators, compaction and the TTL API", () => {
+    const clock = new ManualClock();
+    const map = createMap(clock);
+    map.set("short", 1);
+    map.set("long", 2, { ttl: 5000 });
+    map.expire("long", 10000);
+
+    clock.advance(2000);
+    expect(Array.from(map.keys())).toEqual(["long"]);
+    expect(map.getTTL("long")).toBe(8000);
+
+    const onExpire = vi.fn();
+    map.on("expire", onExpire);
+    map.compact();
+    expect(onExpire).toHaveBeenCalledWith("short");
+  });
+
+  it("should drive sliding TTLs and the sweeper", async () => {
+    const clock = new ManualClock();
+    const map = new RogueMap<string, number>({
+      ttl: 1000,
+      slidingTTL: true,
+      clock: clock.now,
+      sweep: { interval: 60000 },
+    });
+    map.set("a", 1);
+    map.set("b", 2);
+
+    clock.advance(900);
+    map.get("a");
+    clock.advance(900);
+    (map as any).sweep();
+    expect(map.size).toBe(1);
+    expect(map.get("a")).toBe(1);
+    await map.close();
+  });
+
+  it("should not depend on the system time", () => {
+    const clock = new ManualClock(Date.now() - 3600 * 1000);
+    const map = createMap(clock);
+    map.set("a", 1);
+    expect(map.get("a")).toBe(1); // Date.now() is long past expireAt
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { StringCodec, JSONCodec, compressedCodec } from "../src/codecs";
+import { CompressionAlgorithm } from "../src/persistence/interfaces";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "compressed_map.db");
+
+function cleanup() {
+  for (const file of [TEMP_FILE, TEMP_FILE + ".1", TEMP_FILE + ".wal"]) {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+}
+
+function open(
+  compression?: CompressionAlgorithm,
+  extra: { wal?: boolean; syncLoad?: boolean; backups?: number } = {},
+) {
+  return new RogueMap<string, any>({
+    keyCodec: StringCodec,
+    valueCodec: JSONCodec,
+    persistence: { path: TEMP_FILE, type: "fs", compression, ...extra },
+  });
+}
+
+function fill(map: RogueMap<string, any>) {
+  for (let i = 0; i < 2000; i++) {
+    map.set(`user:${i}`, { id: i, name: "user name", tags: ["a", "b", "c"] });
+  }
+}
+
+describe("Snapshot compression", () => {
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  for (const algorithm of ["gzip", "deflate", "brotli"] as const) {
+    it(`should round-trip ${algorithm} snapshots`, async () => {
+      const map = open(algorithm);
+      fill(map);
+      await map.save();
+
+      const data = fs.readFileSync(TEMP_FILE);
+      expect(data.toString("latin1", 0, 4)).toBe("RCMP");
+      expect(data.length).toBeLessThan(map.serialize().length / 4);
+
+      const restored = open(algorithm);
+      expect(restored.size).toBe(2000);
+      expect(restored.get("user:1999").id).toBe(1999);
+
+      const streamed = open(algorithm, { syncLoad: false });
+      await streamed.init();
+      expect(streamed.get("user:0").tags).toEqual(["a", "b", "c"]);
+    });
+  }
+
+  it("should still load uncompressed snapshots", async () => {
+    const plain = open();
+    plain.set("a", 1);
+    await plain.save();
+
+    expect(open("gzip").get("a")).toBe(1);
+    const streamed = open("gzip", { syncLoad: false });
+    await streamed.init();
+    expect(streamed.get("a")).toBe(1);
+  });
+
+  it("should replay the write-ahead log on top of a compressed snapshot", async () => {
+    const map = open("deflate", { wal: true });
+    map.set("a", 1);
+    await map.save();
+    map.set("b", 2);
+    await map.close();
+
+    const restored = open("deflate", { wal: true });
+    expect(restored.get("a")).toBe(1);
+    expect(restored.get("b")).toBe(2);
+  });
+
+  it("should fall back to a backup if the compressed payload is damaged", async () => {
+    const map = open("gzip", { backups: 1 });
+    map.set("v", 1);
+    await map.save();
+    map.set("v", 2);
+    await map.save();
+
+    const data = fs.readFileSync(TEMP_FILE);
+    data[data.length - 12] ^= 0xff;
+    fs.writeFileSync(TEMP_FILE, data);
+
+    expect(open("gzip", { backups: 1 }).get("v")).toBe(1);
+    const streamed = open("gzip", { backups: 1, syncLoad: false });
+    await streamed.init();
+    expect(streamed.get("v")).toBe(1);
+  });
+});
+
+describe("compressedCodec", () => {
+  it("should compress large values and store small ones raw", () => {
+    const codec = compressedCodec(StringCodec, { minSize: 64 });
+    const large = "lorem ipsum ".repeat(100);
+
+    const size = codec.byteLength(large);
+    expect(size).toBeLessThan(large.length / 4);
+    const buf = Buffer.alloc(size);
+    codec.encode(large, buf, 0);
+    expect(buf[0]).not.toBe(0);
+    expect(codec.decode(buf, 0, size)).toBe(large);
+
+    const smallSize = codec.byteLength("tiny");
+    expect(smallSize).toBe(5);
+    const small = Buffer.alloc(smallSize);
+    codec.encode("tiny", small, 0);
+    expect(small[0]).toBe(0);
+    expect(codec.decode(small, 0, smallSize)).toBe("tiny");
+  });
+
+  it("should shrink the off-heap buffer of a map", () => {
+    const value = { text: "some repetitive text ".repeat(50) };
+    const plain = new RogueMap<string, any>({
+      capacity: 256,
+      valueCodec: JSONCodec,
+    });
+    const compressed = new RogueMap<string, any>({
+      capacity: 256,
+      valueCodec: compressedCodec(JSONCodec, { algorithm: "brotli" }),
+    });
+    for (let i = 0; i < 100; i++) {
+      plain.set(`k${i}`, value);
+      compressed.set(`k${i}`, value);
+    }
+
+    expect(compressed.get("k42")).toEqual(value);
+    expect(compressed.serialize().length).toBeLessThan(
+      plain.serialize().length / 4,
+    );
+  });
+});
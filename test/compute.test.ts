@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import { defineStruct } from "../src/struct";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "compute_map.db");
+
+function cleanup() {
+  for (const suffix of ["", ".wal", ".journal", ".tmp"]) {
+    if (fs.existsSync(TEMP_FILE + suffix)) fs.unlinkSync(TEMP_FILE + suffix);
+  }
+}
+
+function counters(options: any = {}) {
+  return new RogueMap<string, number>({
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+    ...options,
+  });
+}
+
+describe("RogueMap compute", () => {
+  beforeEach(cleanup);
+  afterEach(() => {
+    vi.useRealTimers();
+    cleanup();
+  });
+
+  it("should update existing keys in place", () => {
+    const map = counters();
+    map.set("hits", 1);
+    const used = (map as any).writeOffset;
+
+    for (let i = 0; i < 100; i++) map.update("hits", (n) => n + 1);
+    expect(map.get("hits")).toBe(101);
+    expect((map as any).writeOffset).toBe(used);
+
+    expect(map.update("missing", (n) => n + 1)).toBeUndefined();
+    expect(map.has("missing")).toBe(false);
+  });
+
+  it("should append values without a fixed length", () => {
+    const map = new RogueMap<string, string>();
+    map.set("a", "x");
+    expect(map.update("a", (s) => s + "yz")).toBe("xyz");
+    expect(map.get("a")).toBe("xyz");
+    expect(map.size).toBe(1);
+  });
+
+  it("should get or set", () => {
+    const map = counters();
+    const factory = vi.fn(() => 7);
+    expect(map.getOrSet("a", factory)).toBe(7);
+    expect(map.getOrSet("a", factory)).toBe(7);
+    expect(factory).toHaveBeenCalledTimes(1);
+
+    expect(map.computeIfAbsent("b", () => undefined)).toBeUndefined();
+    expect(map.has("b")).toBe(false);
+  });
+
+  it("should insert missing keys into the bucket found by the lookup", () => {
+    const map = counters();
+    map.set("a", 1);
+    map.delete("a"); // Leaves a tombstone on the probe path of "a"
+    const put = vi.spyOn(map as any, "put");
+
+    expect(map.getOrSet("a", () => 2)).toBe(2);
+    expect(map.compute("b", () => 3)).toBe(3);
+    expect(map.incr("c")).toBe(1);
+    expect(put).not.toHaveBeenCalled();
+    expect(
+      Array.from((map as any)._offsets as Float64Array).some((o) => o < 0),
+    ).toBe(false);
+    expect(map.get("a")).toBe(2);
+    expect(map.get("b")).toBe(3);
+    expect(map.size).toBe(3);
+  });
+
+  it("should probe again when the callback changes the map", () => {
+    const map = counters({ capacity: 16 });
+    const value = map.computeIfAbsent("x", () => {
+      map.set("x", 1);
+      return 2;
+    });
+    expect(value).toBe(2);
+    expect(map.size).toBe(1);
+
+    map.getOrSet("y", () => {
+      for (let i = 0; i < 100; i++) map.set(`key${i}`, i); // Resizes
+      return 3;
+    });
+    expect(map.get("y")).toBe(3);
+    expect(map.size).toBe(102);
+    expect(Array.from(map.keys()).filter((k) => k === "x")).toHaveLength(1);
+  });
+
+  it("should compute, creating and deleting keys", () => {
+    const map = counters();
+    const onSet = vi.fn();
+    map.on("set", onSet);
+
+    expect(map.compute("a", (n) => (n ?? 0) + 1)).toBe(1);
+    expect(map.compute("a", (n) => (n ?? 0) + 1)).toBe(2);
+    expect(onSet).toHaveBeenLastCalledWith("a", 2);
+    expect(map.compute("a", () => undefined)).toBeUndefined();
+    expect(map.has("a")).toBe(false);
+
+    expect(map.computeIfPresent("a", (n) => n + 1)).toBeUndefined();
+    map.set("b", 5);
+    expect(map.computeIfPresent("b", (n, k) => (k === "b" ? n * 2 : 0))).toBe(
+      10,
+    );
+    expect(map.computeIfPresent("b", () => undefined)).toBeUndefined();
+    expect(map.size).toBe(0);
+  });
+
+  it("should keep the expiry and treat expired keys as missing", () => {
+    vi.useFakeTimers();
+    const map = counters();
+    map.set("a", 1, { ttl: 1000 });
+    map.set("b", 1, { ttl: 1000 });
+    vi.advanceTimersByTime(500);
+
+    map.update("a", (n) => n + 1);
+    expect(map.getTTL("a")).toBe(500);
+    vi.advanceTimersByTime(501);
+    expect(map.update("a", (n) => n + 1)).toBeUndefined();
+    expect(map.compute("b", (n) => (n === undefined ? 0 : n + 1))).toBe(0);
+    expect(map.getTTL("b")).toBe(-1);
+  });
+
+  it("should update struct values and the hot cache", () => {
+    const Point = defineStruct({ x: "int32", y: "int32" });
+    const map = new RogueMap<string, any>({
+      valueCodec: Point,
+      cacheSize: 10,
+    });
+    map.set("p", { x: 1, y: 2 });
+    map.get("p");
+    map.update("p", (p) => ({ x: p.x + 10, y: p.y }));
+    expect(map.get("p")).toMatchObject({ x: 11, y: 2 });
+  });
+
+  it("should persist in-place updates", async () => {
+    const walOptions = {
+      persistence: { path: TEMP_FILE, type: "fs", wal: true },
+    };
+    const wal = counters(walOptions);
+    wal.set("a", 1);
+    wal.update("a", (n) => n + 41);
+    expect(counters(walOptions).get("a")).toBe(42);
+    cleanup();
+
+    const options = {
+      persistence: { path: TEMP_FILE, type: "fs", incremental: true },
+    };
+    const map = counters(options);
+    for (let i = 0; i < 1000; i++) map.set(`key${i}`, i);
+    await map.save();
+    map.update("key500", (n) => -n);
+    await map.save();
+    expect(counters(options).get("key500")).toBe(-500);
+  });
+});
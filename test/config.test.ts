@@ -6,13 +6,14 @@ import * as path from 'path';
 const TEMP_FILE = path.join(__dirname, 'config_persistence.db');
 
 describe('RogueMap Configurable Persistence', () => {
-  beforeEach(() => {
-    if (fs.existsSync(TEMP_FILE)) fs.unlinkSync(TEMP_FILE);
-  });
+  const cleanup = () => {
+    for (const file of [TEMP_FILE, TEMP_FILE + '.tmp']) {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    }
+  };
 
-  afterEach(() => {
-    if (fs.existsSync(TEMP_FILE)) fs.unlinkSync(TEMP_FILE);
-  });
+  beforeEach(cleanup);
+  afterEach(cleanup);
 
   it('should auto-load data synchronously if configured', () => {
     // 1. Create and save data manually first
@@ -53,6 +54,7 @@ describe('RogueMap Configurable Persistence', () => {
     const data = fs.readFileSync(TEMP_FILE);
     const loaded = RogueMap.deserialize(data);
     expect(loaded.get('bar')).toBe(200);
+    await map.close();
   });
 
   it('should auto-compact based on threshold', () => {
@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { RogueMapCorruptionError } from "../src/errors";
+import {
+  SNAPSHOT_HEADER_SIZE,
+  isValidSnapshot,
+  readSnapshotHeader,
+} from "../src/format";
+import { crc32 } from "../src/utils";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import * as fs from "fs";
+import * as path from "path";
+
+const CAPACITY = 16;
+const TRAILER_SIZE = 4 + 4 + 4; // One bucket block, one data block, trailer CRC
+
+function createSnapshot() {
+  const map = new RogueMap<string, number>({
+    capacity: CAPACITY,
+    initialMemory: 1024,
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+  });
+  map.set("a", 1);
+  map.set("b", 2);
+  map.delete("a");
+  return map.serialize();
+}
+
+// The meta section makes the bucket table start after a variable-length header
+const BUCKETS_OFFSET = readSnapshotHeader(createSnapshot()).bucketsOffset;
+const DATA_OFFSET = BUCKETS_OFFSET + CAPACITY * 8;
+
+// Re-encodes a version 5 snapshot in the version 4 layout (no meta section).
+function toV4(v5: Buffer) {
+  const header = Buffer.from(v5.subarray(0, SNAPSHOT_HEADER_SIZE - 4));
+  header.writeUInt8(4, 5);
+  header.writeUInt32LE(crc32(header, 0, 34), 34);
+  return Buffer.concat([header, v5.subarray(BUCKETS_OFFSET)]);
+}
+
+// Re-encodes a version 5 snapshot in the version 2/3 layout
+// (32-bit offsets, tombstones only marked by the entry flag).
+function toLegacy(v5: Buffer, version: 2 | 3) {
+  const writeOffset = v5.readUInt32LE(14);
+  const buckets = Buffer.alloc(CAPACITY * 4);
+  for (let i = 0; i < CAPACITY; i++) {
+    buckets.writeUInt32LE(v5.readUInt32LE(BUCKETS_OFFSET + i * 8), i * 4);
+  }
+  const data = v5.subarray(DATA_OFFSET, DATA_OFFSET + writeOffset);
+
+  const header = Buffer.alloc(version === 2 ? 22 : 34);
+  header.write("ROGUE", 0);
+  header.writeUInt8(version, 5);
+  header.writeUInt32LE(CAPACITY, 6);
+  header.writeUInt32LE(v5.readUInt32LE(10), 10);
+  header.writeUInt32LE(writeOffset, 14);
+  header.writeUInt32LE(writeOffset, 18);
+  if (version === 3) {
+    header.writeUInt32LE(crc32(buckets), 22);
+    header.writeUInt32LE(crc32(data), 26);
+    header.writeUInt32LE(crc32(header, 0, 30), 30);
+  }
+  return Buffer.concat([header, buckets, data]);
+}
+
+function expectCorruption(data: Buffer, section: string) {
+  try {
+    RogueMap.deserialize(data, {
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+    });
+  } catch (e) {
+    expect(e).toBeInstanceOf(RogueMapCorruptionError);
+    expect((e as RogueMapCorruptionError).section).toBe(section);
+    return;
+  }
+  throw new Error("Expected RogueMapCorruptionError");
+}
+
+function load(data: Buffer) {
+  return RogueMap.deserialize<string, number>(data, {
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+  });
+}
+
+describe("Snapshot integrity (format version 5)", () => {
+  it("should write version 5 and round-trip", () => {
+    const data = createSnapshot();
+    expect(data.readUInt8(5)).toBe(5);
+
+    const map = load(data);
+    expect(map.size).toBe(1);
+    expect(map.get("b")).toBe(2);
+    expect(map.has("a")).toBe(false);
+  });
+
+  it("should detect a damaged header", () => {
+    const data = createSnapshot();
+    data.writeUInt32LE(1024, 10); // Size
+    expectCorruption(data, "header");
+  });
+
+  it("should detect a damaged meta section", () => {
+    const data = createSnapshot();
+    data[SNAPSHOT_HEADER_SIZE + 2] ^= 0xff;
+    expectCorruption(data, "header");
+  });
+
+  it("should detect a damaged bucket table", () => {
+    const data = createSnapshot();
+    data[BUCKETS_OFFSET + 3] ^= 0xff;
+    expectCorruption(data, "buckets");
+  });
+
+  it("should detect a damaged data region", () => {
+    const data = createSnapshot();
+    data[data.length - TRAILER_SIZE - 1] ^= 0xff;
+    expectCorruption(data, "data");
+  });
+
+  it("should detect a damaged trailer", () => {
+    const data = createSnapshot();
+    data[data.length - 1] ^= 0xff;
+    expectCorruption(data, "trailer");
+  });
+
+  it("should detect a truncated file", () => {
+    const data = createSnapshot();
+    expectCorruption(data.subarray(0, data.length - 4), "trailer");
+    expectCorruption(data.subarray(0, DATA_OFFSET + 2), "data");
+    expectCorruption(data.subarray(0, BUCKETS_OFFSET + 4), "buckets");
+    expectCorruption(data.subarray(0, SNAPSHOT_HEADER_SIZE + 4), "header");
+    expectCorruption(data.subarray(0, 8), "header");
+  });
+
+  it("should verify and load snapshots fed in arbitrary chunks", () => {
+    const data = createSnapshot();
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < data.length; i += 7) {
+      chunks.push(data.subarray(i, i + 7));
+    }
+
+    expect(isValidSnapshot(chunks)).toBe(true);
+    const map = RogueMap.fromChunks<string, number>(chunks, {
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+    });
+    expect(map.get("b")).toBe(2);
+    expect(map.has("a")).toBe(false);
+
+    chunks[chunks.length - 3] = Buffer.alloc(7);
+    expect(isValidSnapshot(chunks)).toBe(false);
+  });
+
+  it("should stream large maps across many checksum blocks", () => {
+    const map = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+    });
+    for (let i = 0; i < 100000; i++) map.set(`key${i}`, i);
+    map.delete("key42");
+
+    const chunks = Array.from(map.serializeChunks());
+    expect(chunks.length).toBeGreaterThan(3);
+
+    const restored = RogueMap.fromChunks<string, number>(chunks, {
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+    });
+    expect(restored.size).toBe(99999);
+    expect(restored.get("key99999")).toBe(99999);
+    expect(restored.has("key42")).toBe(false);
+  });
+
+  it("should still load version 4 snapshots", () => {
+    const v4 = toV4(createSnapshot());
+    expect(isValidSnapshot([v4])).toBe(true);
+    const map = load(v4);
+    expect(map.get("b")).toBe(2);
+    expect(map.has("a")).toBe(false);
+  });
+
+  it("should still load version 3 snapshots", () => {
+    const v3 = toLegacy(createSnapshot(), 3);
+    const map = load(v3);
+    expect(map.size).toBe(1);
+    expect(map.get("b")).toBe(2);
+    expect(map.has("a")).toBe(false);
+
+    const damaged = Buffer.from(v3);
+    damaged[damaged.length - 1] ^= 0xff;
+    expectCorruption(damaged, "data");
+  });
+
+  it("should still load version 2 snapshots", () => {
+    const v2 = toLegacy(createSnapshot(), 2);
+    expect(load(v2).get("b")).toBe(2);
+
+    // Without checksums, out-of-range bucket offsets are still caught
+    v2.writeUInt32LE(0xffffff, 22);
+    expectCorruption(v2, "buckets");
+  });
+
+  it("should refuse to open a damaged file instead of starting empty", () => {
+    const file = path.join(__dirname, "corruption_map.db");
+    const data = createSnapshot();
+    data[data.length - TRAILER_SIZE - 1] ^= 0xff;
+    fs.writeFileSync(file, data);
+    try {
+      expect(
+        () =>
+          new RogueMap<string, number>({
+            keyCodec: StringCodec,
+            valueCodec: Int32Codec,
+            persistence: { path: file, type: "fs" },
+          }),
+      ).toThrow("No valid snapshot found");
+      // The only copy of the data is left alone
+      expect(fs.readFileSync(file).equals(data)).toBe(true);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+});
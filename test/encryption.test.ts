@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { RogueMapEncryptionError } from "../src/errors";
+import { EncryptionOptions } from "../src/persistence/interfaces";
+import { StringCodec } from "../src/codecs";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "encrypted_map.db");
+const WAL_FILE = TEMP_FILE + ".wal";
+
+const KEYS: Record<string, Buffer> = {
+  k1: crypto.randomBytes(32),
+  k2: crypto.randomBytes(32),
+};
+
+function cleanup() {
+  for (const file of [TEMP_FILE, WAL_FILE]) {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+}
+
+function open(
+  encryption?: EncryptionOptions,
+  extra: { wal?: boolean; syncLoad?: boolean; compression?: "gzip" } = {},
+) {
+  return new RogueMap<string, string>({
+    keyCodec: StringCodec,
+    valueCodec: StringCodec,
+    persistence: { path: TEMP_FILE, type: "fs", encryption, ...extra },
+  });
+}
+
+const withKey = (keyId: string): EncryptionOptions => ({
+  keyId,
+  getKey: (id) => KEYS[id],
+});
+
+describe("Encryption at rest", () => {
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  it("should round-trip encrypted snapshots", async () => {
+    const map = open(withKey("k1"));
+    map.set("session", "top-secret-token");
+    await map.save();
+
+    const data = fs.readFileSync(TEMP_FILE);
+    expect(data.toString("latin1", 0, 4)).toBe("RENC");
+    expect(data.includes("top-secret-token")).toBe(false);
+
+    expect(open(withKey("k1")).get("session")).toBe("top-secret-token");
+
+    const streamed = open(withKey("k1"), { syncLoad: false });
+    await streamed.init();
+    expect(streamed.get("session")).toBe("top-secret-token");
+  });
+
+  it("should reject a wrong key", async () => {
+    const map = open(withKey("k1"));
+    map.set("a", "1");
+    await map.save();
+
+    const wrongKey: EncryptionOptions = {
+      keyId: "k1",
+      getKey: () => KEYS.k2,
+    };
+    expect(() => open(wrongKey)).toThrow(RogueMapEncryptionError);
+    await expect(open(wrongKey, { syncLoad: false }).init()).rejects.toThrow(
+      /wrong key or tampered data/,
+    );
+  });
+
+  it("should reject tampered and unencrypted data", async () => {
+    const map = open(withKey("k1"));
+    map.set("a", "1");
+    await map.save();
+
+    const data = fs.readFileSync(TEMP_FILE);
+    data[data.length - 20] ^= 0x01;
+    fs.writeFileSync(TEMP_FILE, data);
+    expect(() => open(withKey("k1"))).toThrow(RogueMapEncryptionError);
+    await expect(
+      open(withKey("k1"), { syncLoad: false }).init(),
+    ).rejects.toThrow(RogueMapEncryptionError);
+
+    fs.unlinkSync(TEMP_FILE);
+    const plain = open();
+    plain.set("a", "1");
+    await plain.save();
+    expect(() => open(withKey("k1"))).toThrow(/is not encrypted/);
+  });
+
+  it("should rotate keys on the next save", async () => {
+    const map = open(withKey("k1"));
+    map.set("a", "1");
+    await map.save();
+
+    let current = "k1";
+    const rotating: EncryptionOptions = {
+      keyId: () => current,
+      getKey: (id) => KEYS[id],
+    };
+    const reopened = open(rotating);
+    expect(reopened.get("a")).toBe("1");
+
+    current = "k2";
+    await reopened.save();
+
+    // The old key is no longer needed, only the new one
+    const only = (keyId: string): EncryptionOptions => ({
+      keyId,
+      getKey: (id) => (id === keyId ? KEYS[id] : (undefined as any)),
+    });
+    expect(open(only("k2")).get("a")).toBe("1");
+    expect(() => open(only("k1"))).toThrow(/No encryption key for key id "k2"/);
+  });
+
+  it("should encrypt write-ahead log records", async () => {
+    const map = open(withKey("k1"), { wal: true });
+    map.set("a", "plain-value-1");
+    map.set("b", "plain-value-2");
+    map.delete("a");
+
+    const log = fs.readFileSync(WAL_FILE);
+    expect(log.includes("plain-value")).toBe(false);
+
+    const restored = open(withKey("k1"), { wal: true });
+    expect(restored.has("a")).toBe(false);
+    expect(restored.get("b")).toBe("plain-value-2");
+  });
+
+  it("should support async key providers via init()", async () => {
+    const asyncKey: EncryptionOptions = {
+      keyId: "k1",
+      getKey: async (id) => KEYS[id],
+    };
+    const map = open(asyncKey, { wal: true, syncLoad: false });
+    map.set("a", "1");
+    await map.save();
+    map.set("b", "2");
+    await map.close();
+
+    const restored = open(asyncKey, { wal: true, syncLoad: false });
+    await restored.init();
+    expect(restored.get("a")).toBe("1");
+    expect(restored.get("b")).toBe("2");
+  });
+
+  it("should compress before encrypting", async () => {
+    const map = open(withKey("k1"), { compression: "gzip" });
+    for (let i = 0; i < 1000; i++) map.set(`key${i}`, "value ".repeat(10));
+    await map.save();
+
+    expect(fs.statSync(TEMP_FILE).size).toBeLessThan(
+      map.serialize().length / 4,
+    );
+    const restored = open(withKey("k1"), { compression: "gzip" });
+    expect(restored.get("key999")).toBe("value ".repeat(10));
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { EvictionPolicy } from "../src/eviction";
+import { StringCodec, Int32Codec } from "../src/codecs";
+
+function createMap(policy: EvictionPolicy, maxEntries: number) {
+  const map = new RogueMap<string, number>({
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+    maxEntries,
+    evictionPolicy: policy,
+  });
+  const onEvict = vi.fn();
+  map.on("evict", onEvict);
+  return { map, onEvict };
+}
+
+describe("Off-heap eviction", () => {
+  it("should evict the least recently used entry", () => {
+    const { map, onEvict } = createMap("lru", 3);
+    map.set("a", 1);
+    map.set("b", 2);
+    map.set("c", 3);
+    map.get("a");
+    map.set("d", 4);
+
+    expect(map.size).toBe(3);
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict).toHaveBeenCalledWith("b", 2);
+    expect(map.has("b")).toBe(false);
+    expect(map.get("a")).toBe(1);
+  });
+
+  it("should evict the least frequently used entry", () => {
+    const { map, onEvict } = createMap("lfu", 3);
+    map.set("a", 1);
+    map.set("b", 2);
+    map.set("c", 3);
+    map.get("a");
+    map.get("a");
+    map.get("c");
+    map.set("d", 4);
+    expect(onEvict).toHaveBeenCalledWith("b", 2);
+
+    map.set("e", 5); // d was read less than a and c
+    expect(onEvict).toHaveBeenLastCalledWith("d", 4);
+  });
+
+  it("should evict in insertion order for fifo", () => {
+    const { map, onEvict } = createMap("fifo", 3);
+    map.set("a", 1);
+    map.set("b", 2);
+    map.set("c", 3);
+    map.get("a");
+    map.set("a", 10); // Overwrites keep their place
+    map.set("d", 4);
+    expect(onEvict).toHaveBeenCalledWith("a", 10);
+  });
+
+  it("should keep the newest entry with random eviction", () => {
+    const { map, onEvict } = createMap("random", 10);
+    for (let i = 0; i < 100; i++) {
+      map.set(`key${i}`, i);
+      expect(map.get(`key${i}`)).toBe(i);
+    }
+    expect(map.size).toBe(10);
+    expect(onEvict).toHaveBeenCalledTimes(90);
+    for (const [key, value] of map.entries()) {
+      expect(key).toBe(`key${value}`);
+    }
+  });
+
+  it("should keep recency across table resizes", () => {
+    const map = new RogueMap<string, number>({
+      capacity: 16,
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      maxEntries: 100,
+      evictionSamples: 100, // Exact LRU
+    });
+    for (let i = 0; i < 100; i++) map.set(`key${i}`, i);
+    map.get("key0");
+    map.set("key100", 100);
+
+    expect(map.has("key0")).toBe(true);
+    expect(map.has("key1")).toBe(false);
+  });
+
+  it("should bound the data buffer with maxMemory", () => {
+    const map = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      maxMemory: 64 * 1024,
+    });
+    const onEvict = vi.fn();
+    map.on("evict", onEvict);
+
+    for (let i = 0; i < 20000; i++) map.set(`key${i}`, i);
+
+    expect((map as any).buffer.length).toBeLessThanOrEqual(64 * 1024);
+    expect(map.size).toBeLessThan(20000);
+    expect(map.size).toBeGreaterThan(1000);
+    expect(onEvict).toHaveBeenCalledTimes(20000 - map.size);
+    expect(map.get("key19999")).toBe(19999);
+    for (const [key, value] of map.entries()) {
+      expect(key).toBe(`key${value}`);
+    }
+
+    expect(() => map.set("big".repeat(30000), 1)).toThrow(/maxMemory/);
+  });
+
+  it("should trim loaded snapshots to maxEntries", () => {
+    const source = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+    });
+    for (let i = 0; i < 10; i++) source.set(`key${i}`, i);
+
+    const map = RogueMap.deserialize<string, number>(source.serialize(), {
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      maxEntries: 5,
+    });
+    expect(map.size).toBe(5);
+    map.set("key10", 10);
+    expect(map.size).toBe(5);
+    expect(map.get("key10")).toBe(10);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { FileSystemAdapter } from "../src/persistence/fs";
+import { isValidSnapshot } from "../src/format";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_DIR = path.join(__dirname, "fs_adapter_tmp");
+const TEMP_FILE = path.join(TEMP_DIR, "data.db");
+
+function snapshot(entries: Record<string, number>) {
+  const map = new RogueMap<string, number>();
+  for (const [k, v] of Object.entries(entries)) map.set(k, v);
+  return map.serialize();
+}
+
+describe("FileSystemAdapter", () => {
+  beforeEach(() => {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("should replace the file atomically without leaving temp files", async () => {
+    const adapter = new FileSystemAdapter();
+    adapter.saveSync(snapshot({ a: 1 }), TEMP_FILE);
+    await adapter.save(snapshot({ a: 2 }), TEMP_FILE);
+
+    expect(fs.readdirSync(TEMP_DIR)).toEqual(["data.db"]);
+    const map = RogueMap.deserialize(adapter.loadSync(TEMP_FILE)!);
+    expect(map.get("a")).toBe(2);
+  });
+
+  it("should keep a rolling set of previous snapshots", async () => {
+    const adapter = new FileSystemAdapter({ backups: 2 });
+    for (let i = 1; i <= 4; i++) {
+      await adapter.save(snapshot({ v: i }), TEMP_FILE);
+    }
+
+    expect(fs.readdirSync(TEMP_DIR).sort()).toEqual([
+      "data.db",
+      "data.db.1",
+      "data.db.2",
+    ]);
+    expect(RogueMap.deserialize(fs.readFileSync(TEMP_FILE)).get("v")).toBe(4);
+    expect(
+      RogueMap.deserialize(fs.readFileSync(TEMP_FILE + ".1")).get("v"),
+    ).toBe(3);
+    expect(
+      RogueMap.deserialize(fs.readFileSync(TEMP_FILE + ".2")).get("v"),
+    ).toBe(2);
+  });
+
+  it("should keep the file in place while rotating backups", async () => {
+    const adapter = new FileSystemAdapter({ backups: 2 });
+    await adapter.save(snapshot({ v: 1 }), TEMP_FILE);
+    await adapter.save(snapshot({ v: 2 }), TEMP_FILE);
+
+    // A crash at any rename must still find the current file
+    const rename = fs.promises.rename;
+    const existed: boolean[] = [];
+    const spy = vi
+      .spyOn(fs.promises, "rename")
+      .mockImplementation(async (from, to) => {
+        existed.push(fs.existsSync(TEMP_FILE));
+        await rename(from, to);
+      });
+    try {
+      await adapter.save(snapshot({ v: 3 }), TEMP_FILE);
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(existed).toEqual([true, true]);
+    expect(RogueMap.deserialize(fs.readFileSync(TEMP_FILE)).get("v")).toBe(3);
+    expect(
+      RogueMap.deserialize(fs.readFileSync(TEMP_FILE + ".1")).get("v"),
+    ).toBe(2);
+    expect(
+      RogueMap.deserialize(fs.readFileSync(TEMP_FILE + ".2")).get("v"),
+    ).toBe(1);
+  });
+
+  it("should remove the temp file when a save fails", async () => {
+    const adapter = new FileSystemAdapter({ backups: 1 });
+    await adapter.save(snapshot({ v: 1 }), TEMP_FILE);
+
+    async function* failing() {
+      yield snapshot({ v: 2 }).subarray(0, 10);
+      throw new Error("cancelled");
+    }
+    await expect(adapter.saveChunks(failing(), TEMP_FILE)).rejects.toThrow(
+      "cancelled",
+    );
+    expect(() =>
+      adapter.saveChunksSync(
+        (function* () {
+          throw new Error("cancelled");
+        })(),
+        TEMP_FILE,
+      ),
+    ).toThrow("cancelled");
+
+    expect(fs.readdirSync(TEMP_DIR)).toEqual(["data.db"]);
+    expect(RogueMap.deserialize(fs.readFileSync(TEMP_FILE)).get("v")).toBe(1);
+  });
+
+  it("should fall back to the newest valid snapshot on load", async () => {
+    const adapter = new FileSystemAdapter({ backups: 2 });
+    adapter.saveSync(snapshot({ v: 1 }), TEMP_FILE);
+    adapter.saveSync(snapshot({ v: 2 }), TEMP_FILE);
+
+    // Truncated primary file (crash mid-write without atomic rename)
+    const data = fs.readFileSync(TEMP_FILE);
+    fs.writeFileSync(TEMP_FILE, data.subarray(0, data.length - 10));
+
+    const loaded = adapter.loadSync(TEMP_FILE, isValidSnapshot)!;
+    expect(RogueMap.deserialize(loaded).get("v")).toBe(1);
+    const loadedAsync = await adapter.load(TEMP_FILE, isValidSnapshot);
+    expect(RogueMap.deserialize(loadedAsync!).get("v")).toBe(1);
+
+    // Missing primary file
+    fs.unlinkSync(TEMP_FILE);
+    expect(
+      RogueMap.deserialize(adapter.loadSync(TEMP_FILE, isValidSnapshot)!).get(
+        "v",
+      ),
+    ).toBe(1);
+  });
+
+  it("should throw instead of returning null when no snapshot is valid", () => {
+    const adapter = new FileSystemAdapter();
+    fs.mkdirSync(TEMP_DIR, { recursive: true });
+    fs.writeFileSync(TEMP_FILE, "ROGUE");
+
+    expect(() => adapter.loadSync(TEMP_FILE, isValidSnapshot)).toThrow(
+      /No valid snapshot/,
+    );
+    expect(adapter.loadSync(TEMP_FILE + ".missing", isValidSnapshot)).toBe(
+      null,
+    );
+  });
+
+  it("should restore from backups through persistence options", async () => {
+    const map = new RogueMap<string, number>({
+      persistence: { path: TEMP_FILE, type: "fs", backups: 1 },
+    });
+    map.set("a", 1);
+    await map.save();
+    map.set("a", 2);
+    await map.save();
+
+    fs.writeFileSync(TEMP_FILE, "garbage");
+
+    const restored = new RogueMap<string, number>({
+      persistence: { path: TEMP_FILE, type: "fs", backups: 1 },
+    });
+    expect(restored.get("a")).toBe(1);
+  });
+
+  it("should stream snapshots in chunks", async () => {
+    const adapter = new FileSystemAdapter();
+    const map = new RogueMap<string, number>();
+    for (let i = 0; i < 1000; i++) map.set(`k${i}`, i);
+    adapter.saveChunksSync(map.serializeChunks(), TEMP_FILE);
+
+    const chunks = adapter.loadChunksSync(TEMP_FILE, isValidSnapshot)!;
+    const restored = RogueMap.fromChunks<string, number>(chunks);
+    expect(restored.size).toBe(1000);
+    expect(restored.get("k999")).toBe(999);
+  });
+
+  it("should save a consistent snapshot while the map keeps changing", async () => {
+    const map = new RogueMap<string, number>({
+      persistence: { path: TEMP_FILE, type: "fs" },
+    });
+    map.set("a", 1);
+    map.set("b", 2);
+
+    const saving = map.save();
+    await new Promise((resolve) => setTimeout(resolve, 0)); // Snapshot started
+    map.clear();
+    map.set("c", 3);
+    await saving;
+
+    const restored = new RogueMap<string, number>({
+      persistence: { path: TEMP_FILE, type: "fs" },
+    });
+    expect(restored.size).toBe(2);
+    expect(restored.get("a")).toBe(1);
+    expect(restored.has("c")).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import {
+  StringCodec,
+  Int32Codec,
+  Float64Codec,
+  BigInt64Codec,
+} from "../src/codecs";
+
+describe("RogueMap incr/decr", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count Int32 values in place", () => {
+    const map = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+    });
+    expect(map.incr("hits")).toBe(1);
+    const used = (map as any).writeOffset;
+
+    for (let i = 0; i < 1000; i++) map.incr("hits");
+    expect(map.incr("hits", 10)).toBe(1011);
+    expect(map.decr("hits", 11)).toBe(1000);
+    expect(map.decr("hits")).toBe(999);
+    expect(map.get("hits")).toBe(999);
+    expect((map as any).writeOffset).toBe(used);
+  });
+
+  it("should start missing keys from the initial value", () => {
+    vi.useFakeTimers();
+    const map = new RogueMap<string, number>({ valueCodec: Int32Codec });
+    expect(map.incr("a", 5, { initial: 100 })).toBe(105);
+    expect(map.decr("b", 1, { initial: 10, ttl: 1000 })).toBe(9);
+    expect(map.getTTL("b")).toBe(1000);
+
+    vi.advanceTimersByTime(500);
+    map.incr("b");
+    expect(map.getTTL("b")).toBe(500);
+    vi.advanceTimersByTime(501);
+    expect(map.incr("b", 1, { initial: 0 })).toBe(1);
+  });
+
+  it("should reject Int32 overflow without changing the value", () => {
+    const map = new RogueMap<string, number>({ valueCodec: Int32Codec });
+    map.set("max", 0x7fffffff);
+    map.set("min", -0x80000000);
+
+    expect(() => map.incr("max")).toThrow("RogueMap: Int32 overflow");
+    expect(() => map.decr("min")).toThrow("RogueMap: Int32 overflow");
+    expect(() => map.incr("max", -0.5)).toThrow("must be an integer");
+    expect(() => map.incr("new", 1, { initial: 0x7fffffff })).toThrow(
+      "RogueMap: Int32 overflow",
+    );
+    expect(map.get("max")).toBe(0x7fffffff);
+    expect(map.has("new")).toBe(false);
+  });
+
+  it("should count Float64 and BigInt64 values", () => {
+    const floats = new RogueMap<string, number>({ valueCodec: Float64Codec });
+    floats.incr("x", 0.5);
+    expect(floats.incr("x", 0.25)).toBe(0.75);
+
+    const bigints = new RogueMap<string, bigint>({ valueCodec: BigInt64Codec });
+    expect(bigints.incr("n", 2n ** 62n)).toBe(2n ** 62n);
+    expect(bigints.decr("n", 1)).toBe(2n ** 62n - 1n);
+    expect(() => bigints.incr("n", 2n ** 62n + 1n)).toThrow(
+      "RogueMap: BigInt64 overflow",
+    );
+  });
+
+  it("should require a numeric value codec", () => {
+    const map = new RogueMap<string, any>();
+    map.set("a", 1);
+    expect(() => map.incr("a")).toThrow("requires an Int32Codec");
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { FileSystemAdapter } from "../src/persistence/fs";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import { defineStruct } from "../src/struct";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "incremental_map.db");
+const JOURNAL_FILE = TEMP_FILE + ".journal";
+
+function cleanup() {
+  for (const file of [TEMP_FILE, JOURNAL_FILE, TEMP_FILE + ".tmp"]) {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+}
+
+function open() {
+  return new RogueMap<string, number>({
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+    capacity: 65536,
+    initialMemory: 4 * 1024 * 1024,
+    persistence: { path: TEMP_FILE, type: "fs", incremental: true },
+  });
+}
+
+describe("Incremental persistence", () => {
+  beforeEach(cleanup);
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanup();
+  });
+
+  it("should only write changed blocks after the first snapshot", async () => {
+    const patch = vi.spyOn(FileSystemAdapter.prototype, "patch");
+    const saveChunks = vi.spyOn(FileSystemAdapter.prototype, "saveChunks");
+
+    const map = open();
+    for (let i = 0; i < 50000; i++) map.set(`key${i}`, i);
+    await map.save();
+    expect(saveChunks).toHaveBeenCalledTimes(1);
+    const fullSize = fs.statSync(TEMP_FILE).size;
+
+    map.set("key1", -1);
+    map.delete("key2");
+    map.set("new", 42);
+    await map.save();
+
+    expect(saveChunks).toHaveBeenCalledTimes(1);
+    expect(patch).toHaveBeenCalledTimes(1);
+    const ranges = patch.mock.calls[0][0];
+    const written = ranges.reduce((sum, r) => sum + r.data.length, 0);
+    expect(written).toBeLessThan(fullSize / 4);
+    expect(fs.existsSync(JOURNAL_FILE)).toBe(false);
+
+    const restored = open();
+    expect(restored.size).toBe(50000);
+    expect(restored.get("key1")).toBe(-1);
+    expect(restored.has("key2")).toBe(false);
+    expect(restored.get("new")).toBe(42);
+    expect(restored.get("key49999")).toBe(49999);
+  });
+
+  it("should fall back to a full snapshot after clear() or resize", async () => {
+    const saveChunks = vi.spyOn(FileSystemAdapter.prototype, "saveChunks");
+    const patch = vi.spyOn(FileSystemAdapter.prototype, "patch");
+
+    const map = open();
+    map.set("a", 1);
+    await map.save();
+    map.clear();
+    map.set("b", 2);
+    await map.save();
+    expect(saveChunks).toHaveBeenCalledTimes(2);
+    expect(patch).not.toHaveBeenCalled();
+
+    // Grow past the initial capacity
+    for (let i = 0; i < 60000; i++) map.set(`key${i}`, i);
+    await map.save();
+    expect(saveChunks).toHaveBeenCalledTimes(3);
+
+    map.set("c", 3);
+    await map.save();
+    expect(patch).toHaveBeenCalledTimes(1);
+
+    const restored = open();
+    expect(restored.has("a")).toBe(false);
+    expect(restored.get("b")).toBe(2);
+    expect(restored.get("c")).toBe(3);
+    expect(restored.get("key59999")).toBe(59999);
+  });
+
+  it("should redo an interrupted patch from the journal", async () => {
+    const map = open();
+    map.set("a", 1);
+    await map.save();
+    const before = fs.readFileSync(TEMP_FILE);
+
+    // Keep the journal, as if the process died before removing it
+    const rm = fs.promises.rm;
+    vi.spyOn(fs.promises, "rm").mockImplementation(async (file, options) => {
+      if (file !== JOURNAL_FILE) await rm(file, options);
+    });
+    map.set("a", 2);
+    map.set("b", 3);
+    await map.save();
+    vi.restoreAllMocks();
+
+    // ...and before the ranges reached the file
+    expect(fs.existsSync(JOURNAL_FILE)).toBe(true);
+    fs.writeFileSync(TEMP_FILE, before);
+
+    const restored = open();
+    expect(restored.get("a")).toBe(2);
+    expect(restored.get("b")).toBe(3);
+    expect(fs.existsSync(JOURNAL_FILE)).toBe(false);
+  });
+
+  it("should ignore a torn journal", async () => {
+    const map = open();
+    map.set("a", 1);
+    await map.save();
+
+    fs.writeFileSync(JOURNAL_FILE, Buffer.from("RJNL\x00\x01"));
+
+    const restored = open();
+    expect(restored.get("a")).toBe(1);
+    expect(fs.existsSync(JOURNAL_FILE)).toBe(false);
+  });
+
+  it("should persist the flags of replaced and deleted entries", async () => {
+    const persistence = {
+      path: TEMP_FILE,
+      type: "fs" as const,
+      incremental: true,
+    };
+    const map = new RogueMap<string, string>({
+      keyCodec: StringCodec,
+      valueCodec: StringCodec,
+      capacity: 65536,
+      initialMemory: 4 * 1024 * 1024,
+      persistence,
+    });
+    // Spans many 64KB data blocks, "a" lives in the first one
+    map.set("a", "x");
+    for (let i = 0; i < 20000; i++) map.set(`key${i}`, `value${i}`);
+    await map.save();
+
+    map.set("a", "longer"); // Appended, the old entry becomes a tombstone
+    map.delete("key0");
+    await map.save();
+
+    const restored = new RogueMap<string, string>({
+      keyCodec: StringCodec,
+      valueCodec: StringCodec,
+      persistence,
+    });
+    expect(restored.size).toBe(20000);
+    expect([...restored.keys()].length).toBe(20000);
+    expect([...restored.entries()].filter(([k]) => k === "a")).toEqual([
+      ["a", "longer"],
+    ]);
+    expect(restored.has("key0")).toBe(false);
+
+    // Compaction must not carry the stale entries forward
+    restored.compact();
+    expect([...restored.keys()].length).toBe(20000);
+    expect(restored.get("a")).toBe("longer");
+    await restored.close();
+  });
+
+  it("should persist writes through struct views", async () => {
+    const Point = defineStruct({ a: "int32", tags: "uint8[4]" });
+    const options = {
+      keyCodec: StringCodec,
+      valueCodec: Point,
+      capacity: 16384,
+      persistence: { path: TEMP_FILE, type: "fs" as const, incremental: true },
+    };
+    const patch = vi.spyOn(FileSystemAdapter.prototype, "patch");
+    const map = new RogueMap<string, any>(options);
+    for (let i = 0; i < 10000; i++) map.set(`k${i}`, { a: i, tags: [] });
+    await map.save();
+
+    map.get("k0").a = 42; // Far from the appended entry below
+    map.get("k1").tags[2] = 7;
+    map.set("k9999", { a: -1, tags: [] });
+    await map.save();
+    expect(patch).toHaveBeenCalledTimes(1);
+
+    const reopened = new RogueMap<string, any>(options);
+    expect(reopened.get("k0").a).toBe(42);
+    expect(reopened.get("k1").tags[2]).toBe(7);
+    expect(reopened.get("k9999").a).toBe(-1);
+  });
+});
@@ -89,12 +89,16 @@ describe('RogueMap Standard Interface', () => {
     map.set('a', 1);
     map.set('b', 2);
     map.set('a', 3); // Update 'a'
-    
-    // 'a' (1) is marked DELETED. 'b' (2) is ACTIVE. 'a' (3) is appended.
-    // So buffer order is: [DELETED a:1], [ACTIVE b:2], [ACTIVE a:3]
-    // Iteration should show: ['b', 2], ['a', 3]
-    
-    const entries = Array.from(map.entries());
-    expect(entries).toEqual([['b', 2], ['a', 3]]);
+
+    // Same encoded size: 'a' is rewritten in place and keeps its position, like Map
+    expect(Array.from(map.entries())).toEqual([['a', 3], ['b', 2]]);
+
+    const strings = new RogueMap<string, string>();
+    strings.set('a', 'x');
+    strings.set('b', 'y');
+    strings.set('a', 'xyz'); // Grows: 'a' (x) is marked DELETED and 'a' (xyz) is appended
+    // So buffer order is: [DELETED a:x], [ACTIVE b:y], [ACTIVE a:xyz]
+    // Iteration should show: ['b', 'y'], ['a', 'xyz']
+    expect(Array.from(strings.entries())).toEqual([['b', 'y'], ['a', 'xyz']]);
   });
 });
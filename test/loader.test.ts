@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+
+describe("RogueMap getOrLoad", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should load misses once and serve hits from the map", async () => {
+    const map = new RogueMap<string, string>();
+    const loader = vi.fn(async (key: string) => `value:${key}`);
+    const onLoad = vi.fn();
+    map.on("load", onLoad);
+
+    expect(await map.getOrLoad("a", loader)).toBe("value:a");
+    expect(await map.getOrLoad("a", loader)).toBe("value:a");
+    expect(map.get("a")).toBe("value:a");
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(onLoad).toHaveBeenCalledWith("a", "value:a");
+  });
+
+  it("should coalesce concurrent loads of the same key", async () => {
+    const map = new RogueMap<string, number>();
+    let calls = 0;
+    const loader = () =>
+      new Promise<number>((resolve) => {
+        calls++;
+        setTimeout(() => resolve(42), 100);
+      });
+
+    const pending = Promise.all([
+      map.getOrLoad("a", loader),
+      map.getOrLoad("a", loader),
+      map.getOrLoad("a", loader),
+    ]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await pending).toEqual([42, 42, 42]);
+    expect(calls).toBe(1);
+  });
+
+  it("should reload expired entries", async () => {
+    const map = new RogueMap<string, number>();
+    let version = 0;
+    const loader = () => ++version;
+
+    expect(await map.getOrLoad("a", loader, { ttl: 1000 })).toBe(1);
+    vi.advanceTimersByTime(1001);
+    expect(map.get("a")).toBeUndefined();
+    expect(await map.getOrLoad("a", loader, { ttl: 1000 })).toBe(2);
+  });
+
+  it("should serve stale values while revalidating", async () => {
+    const map = new RogueMap<string, number>();
+    const options = { ttl: 1000, staleWhileRevalidate: 5000 };
+    let version = 0;
+    const loader = vi.fn(() => ++version);
+    const onRefresh = vi.fn();
+    map.on("refresh", onRefresh);
+
+    await map.getOrLoad("a", loader, options);
+    vi.advanceTimersByTime(2000);
+
+    expect(await map.getOrLoad("a", loader, options)).toBe(1); // Stale
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRefresh).toHaveBeenCalledWith("a", 2);
+    expect(await map.getOrLoad("a", loader, options)).toBe(2);
+
+    // Past the stale window the caller waits for the loader
+    vi.advanceTimersByTime(7000);
+    expect(await map.getOrLoad("a", loader, options)).toBe(3);
+    expect(loader).toHaveBeenCalledTimes(3);
+  });
+
+  it("should fall back to stale values when the loader fails", async () => {
+    const map = new RogueMap<string, number>();
+    const options = { ttl: 1000, staleIfError: 5000 };
+    const onError = vi.fn();
+    map.on("loadError", onError);
+
+    await map.getOrLoad("a", () => 1, options);
+    vi.advanceTimersByTime(2000);
+
+    const failing = () => {
+      throw new Error("backend down");
+    };
+    expect(await map.getOrLoad("a", failing, options)).toBe(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][1].message).toBe("backend down");
+
+    vi.advanceTimersByTime(5000);
+    await expect(map.getOrLoad("a", failing, options)).rejects.toThrow(
+      "backend down",
+    );
+    await expect(map.getOrLoad("b", failing, options)).rejects.toThrow(
+      "backend down",
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { defineStruct } from "../src/struct";
+import {
+  AnyCodec,
+  Int32Codec,
+  StringCodec,
+  JSONCodec,
+  compressedCodec,
+} from "../src/codecs";
+import { Codec } from "../src/interfaces";
+import { readSnapshotHeader } from "../src/format";
+
+const Point = defineStruct({ x: "int32", y: "int32" });
+
+describe("Snapshot codec metadata", () => {
+  it("should store codec ids, lengths and schema fingerprints", () => {
+    const map = new RogueMap({ keyCodec: StringCodec, valueCodec: Point });
+    map.set("p", { x: 1, y: 2 });
+
+    const { meta } = readSnapshotHeader(map.serialize());
+    expect(meta!.key).toEqual({ id: "string" });
+    expect(meta!.value.id).toBe("struct");
+    expect(meta!.value.fixedLength).toBe(8);
+    expect(JSON.parse(meta!.value.schema!)).toEqual({ x: "int32", y: "int32" });
+    expect(typeof meta!.value.fingerprint).toBe("number");
+  });
+
+  it("should reject a mismatched codec", () => {
+    const map = new RogueMap({ keyCodec: StringCodec, valueCodec: Int32Codec });
+    map.set("a", 1);
+    const data = map.serialize();
+
+    expect(() =>
+      RogueMap.deserialize(data, {
+        keyCodec: StringCodec,
+        valueCodec: AnyCodec,
+      }),
+    ).toThrow(/value codec 'int32'/);
+  });
+
+  it("should reject a struct with a different schema", () => {
+    const map = new RogueMap({ keyCodec: StringCodec, valueCodec: Point });
+    map.set("p", { x: 1, y: 2 });
+    const data = map.serialize();
+
+    const Swapped = defineStruct({ y: "int32", x: "int32" });
+    expect(() =>
+      RogueMap.deserialize(data, {
+        keyCodec: StringCodec,
+        valueCodec: Swapped,
+      }),
+    ).toThrow(/schema does not match/);
+  });
+
+  it("should pick built-in codecs when none are given", () => {
+    const map = new RogueMap({ keyCodec: StringCodec, valueCodec: Int32Codec });
+    map.set("a", 42);
+
+    const restored = RogueMap.deserialize(map.serialize());
+    expect(restored.get("a")).toBe(42);
+
+    // The adopted codecs are used for new writes too
+    restored.set("b", 7);
+    const again = RogueMap.deserialize(restored.serialize(), {
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+    });
+    expect(again.get("b")).toBe(7);
+  });
+
+  it("should rebuild struct and compressed codecs from the snapshot", () => {
+    const points = new RogueMap({ keyCodec: StringCodec, valueCodec: Point });
+    points.set("p", { x: 3, y: 4 });
+    const restored = RogueMap.deserialize<string, { x: number; y: number }>(
+      points.serialize(),
+    );
+    expect(restored.get("p")!.x).toBe(3);
+    expect(restored.get("p")!.y).toBe(4);
+
+    const docs = new RogueMap({
+      valueCodec: compressedCodec(JSONCodec, { minSize: 16 }),
+    });
+    const doc = { text: "lorem ipsum ".repeat(50) };
+    docs.set("d", doc);
+    expect(RogueMap.deserialize(docs.serialize()).get("d")).toEqual(doc);
+  });
+
+  it("should require custom codecs to be passed explicitly", () => {
+    const Custom: Codec<number> = {
+      encode: (value, buffer, offset) =>
+        buffer.writeUInt16LE(value, offset) - offset,
+      decode: (buffer, offset) => buffer.readUInt16LE(offset),
+      byteLength: () => 2,
+      fixedLength: 2,
+    };
+    const map = new RogueMap({ valueCodec: Custom });
+    map.set("a", 7);
+    const data = map.serialize();
+
+    expect(() => RogueMap.deserialize(data)).toThrow(/pass it as valueCodec/);
+    expect(RogueMap.deserialize(data, { valueCodec: Custom }).get("a")).toBe(7);
+  });
+});
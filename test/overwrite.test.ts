@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { FileSystemAdapter } from "../src/persistence/fs";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import { entryLayout, loadSnapshotFile, verifySnapshot } from "../src/inspect";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "overwrite_map.db");
+
+function cleanup() {
+  for (const suffix of ["", ".wal", ".journal", ".tmp"]) {
+    if (fs.existsSync(TEMP_FILE + suffix)) fs.unlinkSync(TEMP_FILE + suffix);
+  }
+}
+
+describe("RogueMap in-place overwrite", () => {
+  beforeEach(cleanup);
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    cleanup();
+  });
+
+  // Without the single-page fast path, writes go through PagedBuffer
+  for (const paged of [false, true]) {
+    const label = paged ? "multi-page writes" : "single-page writes";
+
+    it(`should reuse the entry for same-size values (${label})`, () => {
+      const map = new RogueMap<string, number>({
+        keyCodec: StringCodec,
+        valueCodec: Int32Codec,
+      });
+      if (paged) (map as any).rawBuffer = null;
+      for (let i = 0; i < 100; i++) map.set(`key${i}`, i);
+      const used = (map as any).writeOffset;
+
+      for (let round = 0; round < 50; round++) {
+        for (let i = 0; i < 100; i++) map.set(`key${i}`, i * round);
+      }
+      expect((map as any).writeOffset).toBe(used);
+      expect((map as any)._deletedCount).toBe(0);
+      expect(map.get("key7")).toBe(7 * 49);
+      expect(map.size).toBe(100);
+    });
+  }
+
+  it("should append values that grow", () => {
+    const map = new RogueMap<string, string>({
+      keyCodec: StringCodec,
+      valueCodec: StringCodec,
+    });
+    map.set("a", "abc");
+    const used = (map as any).writeOffset;
+
+    map.set("a", "xyz");
+    expect((map as any).writeOffset).toBe(used);
+    map.set("a", "longer");
+    expect((map as any).writeOffset).toBeGreaterThan(used);
+    expect((map as any)._deletedCount).toBe(1);
+    expect(map.get("a")).toBe("longer");
+    expect(map.size).toBe(1);
+  });
+
+  for (const paged of [false, true]) {
+    const label = paged ? "multi-page writes" : "single-page writes";
+
+    it(`should write shorter values in place (${label})`, () => {
+      const map = new RogueMap<string, string>({
+        keyCodec: StringCodec,
+        valueCodec: StringCodec,
+        capacity: 16,
+      });
+      if (paged) (map as any).rawBuffer = null;
+      for (let i = 0; i < 10; i++) map.set(`key${i}`, "a long value");
+      const used = (map as any).writeOffset;
+
+      map.set("key3", "short");
+      map.set("key3", "");
+      map.computeIfPresent("key5", () => "mid");
+      expect((map as any).writeOffset).toBe(used);
+      expect((map as any)._deletedCount).toBe(0);
+      expect(map.get("key3")).toBe("");
+      expect(map.get("key5")).toBe("mid");
+
+      // Scans skip the rest of the old value
+      expect(map.get("key4")).toBe("a long value");
+      expect(Array.from(map.keys())).toHaveLength(10);
+      expect(new Map(map.entries()).get("key5")).toBe("mid");
+      for (let i = 10; i < 40; i++) map.set(`key${i}`, "x"); // Resizes
+      expect(map.get("key5")).toBe("mid");
+      expect(map.get("key9")).toBe("a long value");
+      expect(map.size).toBe(40);
+    });
+  }
+
+  it("should save shorter values written in place", async () => {
+    const options = {
+      keyCodec: StringCodec,
+      valueCodec: StringCodec,
+      persistence: { path: TEMP_FILE, type: "fs" as const, incremental: true },
+    };
+    const map = new RogueMap<string, string>(options);
+    for (let i = 0; i < 100; i++) map.set(`key${i}`, `value number ${i}`);
+    await map.save();
+    map.set("key50", "v");
+    await map.save();
+
+    const snapshot = await loadSnapshotFile(TEMP_FILE);
+    const layout = entryLayout(snapshot.header.meta!);
+    expect(verifySnapshot(snapshot, layout, { value: StringCodec })).toEqual(
+      [],
+    );
+    const reopened = new RogueMap<string, string>(options);
+    expect(reopened.get("key50")).toBe("v");
+    expect(reopened.get("key51")).toBe("value number 51");
+    expect(Array.from(reopened.values())).toHaveLength(100);
+  });
+
+  it("should apply the new TTL", () => {
+    vi.useFakeTimers();
+    const map = new RogueMap<string, number>({ valueCodec: Int32Codec });
+    map.set("a", 1, { ttl: 1000 });
+    map.set("a", 2);
+    expect(map.getTTL("a")).toBe(-1);
+    map.set("a", 3, { ttl: 500 });
+    expect(map.getTTL("a")).toBe(500);
+  });
+
+  it("should not change data read by an open snapshot", async () => {
+    const map = new RogueMap<string, number>({ valueCodec: Int32Codec });
+    map.set("a", 1);
+    const stream = map.serializeStream();
+    map.set("a", 2);
+
+    const copy = await RogueMap.fromStream<string, number>(stream, {
+      valueCodec: Int32Codec,
+    });
+    expect(copy.get("a")).toBe(1);
+    expect(map.get("a")).toBe(2);
+  });
+
+  it("should patch overwritten values into the file", async () => {
+    const patch = vi.spyOn(FileSystemAdapter.prototype, "patch");
+    const options = {
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      persistence: { path: TEMP_FILE, type: "fs" as const, incremental: true },
+    };
+    const map = new RogueMap<string, number>(options);
+    for (let i = 0; i < 1000; i++) map.set(`key${i}`, i);
+    await map.save();
+
+    map.set("key500", -1);
+    await map.save();
+    expect(patch).toHaveBeenCalledTimes(1);
+    expect(new RogueMap<string, number>(options).get("key500")).toBe(-1);
+  });
+});
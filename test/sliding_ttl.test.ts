@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { readSnapshotHeader } from "../src/format";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "sliding_ttl.db");
+
+function cleanup() {
+  for (const suffix of ["", ".wal", ".tmp"]) {
+    if (fs.existsSync(TEMP_FILE + suffix)) fs.unlinkSync(TEMP_FILE + suffix);
+  }
+}
+
+describe("RogueMap sliding TTL", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Without the single-page fast path, reads go through PagedBuffer
+  for (const paged of [false, true]) {
+    const label = paged ? "multi-page reads" : "single-page reads";
+
+    it(`should restart the TTL on get and has (${label})`, () => {
+      const map = new RogueMap<string, string>({ ttl: 1000, slidingTTL: true });
+      if (paged) (map as any).rawBuffer = null;
+      map.set("a", "1");
+      map.set("b", "2");
+
+      vi.advanceTimersByTime(800);
+      expect(map.get("a")).toBe("1");
+      expect(map.has("b")).toBe(true);
+
+      vi.advanceTimersByTime(800); // 1600ms after set
+      expect(map.get("a")).toBe("1");
+      expect(map.getTTL("b")).toBe(200);
+
+      vi.advanceTimersByTime(1001);
+      expect(map.get("a")).toBeUndefined();
+      expect(map.has("b")).toBe(false);
+    });
+  }
+
+  it("should allow per-entry sliding", () => {
+    const map = new RogueMap<string, string>({ ttl: 1000 });
+    map.set("fixed", "1");
+    map.set("idle", "2", { slidingTTL: true, ttl: 500 });
+
+    vi.advanceTimersByTime(400);
+    map.get("fixed");
+    map.get("idle");
+    vi.advanceTimersByTime(400);
+    map.get("idle");
+    vi.advanceTimersByTime(400); // 1200ms after set
+
+    expect(map.get("fixed")).toBeUndefined();
+    expect(map.get("idle")).toBe("2");
+    expect(map.getTTL("idle")).toBe(500);
+  });
+
+  it("should let entries opt out of a sliding map", () => {
+    const map = new RogueMap<string, string>({ ttl: 1000, slidingTTL: true });
+    map.set("fixed", "1", { slidingTTL: false });
+
+    vi.advanceTimersByTime(800);
+    map.get("fixed");
+    vi.advanceTimersByTime(300);
+    expect(map.has("fixed")).toBe(false);
+  });
+
+  it("should stop sliding once overwritten or given a fixed expiry", () => {
+    const map = new RogueMap<string, string>({ ttl: 1000 });
+    map.set("a", "1", { slidingTTL: true });
+    map.set("a", "2");
+    map.set("b", "1", { slidingTTL: true });
+    map.expire("b", 1000);
+
+    vi.advanceTimersByTime(800);
+    map.get("a");
+    map.get("b");
+    vi.advanceTimersByTime(300);
+    expect(map.has("a")).toBe(false);
+    expect(map.has("b")).toBe(false);
+  });
+
+  it("should keep sliding across resizes and hot cache hits", () => {
+    const map = new RogueMap<string, number>({
+      capacity: 16,
+      cacheSize: 10,
+      ttl: 1000,
+      slidingTTL: true,
+    });
+    map.set("a", 0);
+    for (let i = 0; i < 100; i++) map.set(`key${i}`, i, { slidingTTL: false });
+
+    vi.advanceTimersByTime(800);
+    expect(map.get("a")).toBe(0);
+    expect(map.get("a")).toBe(0); // Served by the cache
+    vi.advanceTimersByTime(800);
+    expect(map.get("a")).toBe(0);
+    expect(map.has("key0")).toBe(false);
+  });
+
+  it("should not revive an idle entry from the hot cache", () => {
+    const map = new RogueMap<string, number>({
+      cacheSize: 10,
+      ttl: 1000,
+      slidingTTL: true,
+    });
+    const expired: string[] = [];
+    map.on("expire", (key) => expired.push(key));
+    map.set("a", 1);
+    expect(map.get("a")).toBe(1); // Cached
+
+    vi.advanceTimersByTime(1001);
+    expect(map.get("a")).toBeUndefined();
+    expect(map.get("a")).toBeUndefined();
+    expect(map.size).toBe(0);
+    expect(expired).toEqual(["a"]);
+  });
+
+  it("should keep per-entry windows in snapshots", () => {
+    const map = new RogueMap<string, number>({ ttl: 5000 });
+    map.set("a", 1, { ttl: 1000, slidingTTL: true });
+    map.set("b", 2, { ttl: 1000 });
+    const data = map.serialize();
+    expect(readSnapshotHeader(data).version).toBe(6);
+
+    const restored = RogueMap.deserialize<string, number>(data);
+    vi.advanceTimersByTime(800);
+    expect(restored.get("a")).toBe(1);
+    vi.advanceTimersByTime(800);
+    expect(restored.get("a")).toBe(1);
+    expect(restored.has("b")).toBe(false);
+
+    const fixed = new RogueMap<string, number>();
+    fixed.set("a", 1, { ttl: 1000 });
+    expect(readSnapshotHeader(fixed.serialize()).version).toBe(5);
+  });
+
+  it("should keep per-entry windows across WAL replay and saves", async () => {
+    cleanup();
+    const persistence = { path: TEMP_FILE, type: "fs" as const, wal: true };
+    try {
+      const map = new RogueMap<string, number>({ persistence });
+      map.set("saved", 1, { ttl: 1000, slidingTTL: true });
+      await map.save();
+      map.set("logged", 2, { ttl: 1000, slidingTTL: true }); // Only in the WAL
+      map.set("touched", 3, { ttl: 1000, slidingTTL: true });
+      map.touch("touched", 2000);
+      await map.close();
+
+      const reopened = new RogueMap<string, number>({ persistence });
+      vi.advanceTimersByTime(800);
+      expect(reopened.get("saved")).toBe(1);
+      expect(reopened.get("logged")).toBe(2);
+      vi.advanceTimersByTime(800);
+      expect(reopened.get("saved")).toBe(1);
+      expect(reopened.get("logged")).toBe(2);
+      expect(reopened.get("touched")).toBe(3); // Slides by the touched TTL
+      await reopened.save();
+      await reopened.close();
+
+      const again = new RogueMap<string, number>({ persistence });
+      vi.advanceTimersByTime(800);
+      expect(again.get("logged")).toBe(2);
+      vi.advanceTimersByTime(800);
+      expect(again.get("logged")).toBe(2);
+      expect(again.has("saved")).toBe(false);
+      await again.close();
+    } finally {
+      cleanup();
+    }
+  });
+});
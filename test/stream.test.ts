@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { save, load } from "../src/persistence";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "stream_map.db");
+
+const codecs = { keyCodec: StringCodec, valueCodec: Int32Codec };
+
+function cleanup() {
+  for (const file of [TEMP_FILE, TEMP_FILE + ".1"]) {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+}
+
+function createMap(count: number) {
+  const map = new RogueMap<string, number>(codecs);
+  for (let i = 0; i < count; i++) map.set(`key${i}`, i);
+  return map;
+}
+
+describe("RogueMap streaming serialization", () => {
+  beforeEach(cleanup);
+  afterEach(cleanup);
+
+  it("should round-trip through a Node.js stream", async () => {
+    const map = createMap(50000);
+    map.delete("key7");
+
+    const restored = await RogueMap.fromStream<string, number>(
+      map.serializeStream(),
+      codecs,
+    );
+    expect(restored.size).toBe(49999);
+    expect(restored.get("key49999")).toBe(49999);
+    expect(restored.has("key7")).toBe(false);
+  });
+
+  it("should round-trip through a Web ReadableStream", async () => {
+    const map = createMap(1000);
+
+    const restored = await RogueMap.fromStream<string, number>(
+      map.serializeWebStream(),
+      codecs,
+    );
+    expect(restored.size).toBe(1000);
+    expect(restored.get("key500")).toBe(500);
+  });
+
+  it("should capture the map as of the call", async () => {
+    const map = createMap(3);
+    const stream = map.serializeStream();
+
+    map.clear();
+    map.set("other", 1);
+
+    const restored = await RogueMap.fromStream<string, number>(stream, codecs);
+    expect(restored.size).toBe(3);
+    expect(restored.get("key2")).toBe(2);
+    expect(restored.has("other")).toBe(false);
+  });
+
+  it("should reject a truncated stream", async () => {
+    const data = createMap(10).serialize();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(data.subarray(0, data.length - 20));
+        controller.close();
+      },
+    });
+
+    await expect(RogueMap.fromStream(stream, codecs)).rejects.toThrow(
+      /Corrupted snapshot/,
+    );
+  });
+
+  it("should stream through the save()/load() helpers", async () => {
+    await save(createMap(2000), TEMP_FILE);
+    const restored = await load<string, number>(TEMP_FILE, codecs);
+    expect(restored.size).toBe(2000);
+    expect(restored.get("key1999")).toBe(1999);
+  });
+
+  it("should stream on init() and fall back to a backup if damaged", async () => {
+    const options = {
+      ...codecs,
+      persistence: {
+        path: TEMP_FILE,
+        type: "fs" as const,
+        backups: 1,
+        syncLoad: false,
+      },
+    };
+    const map = new RogueMap<string, number>(options);
+    map.set("a", 1);
+    await map.save();
+
+    const restored = new RogueMap<string, number>(options);
+    await restored.init();
+    expect(restored.get("a")).toBe(1);
+
+    map.set("a", 2);
+    await map.save();
+    const data = fs.readFileSync(TEMP_FILE);
+    fs.writeFileSync(TEMP_FILE, data.subarray(0, data.length - 1));
+
+    const fallback = new RogueMap<string, number>(options);
+    await fallback.init();
+    expect(fallback.get("a")).toBe(1);
+  });
+});
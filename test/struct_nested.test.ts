@@ -0,0 +1,87 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { RogueMap } from '../src/RogueMap';
+import { defineStruct } from '../src/struct';
+
+describe('Nested Structs and Arrays', () => {
+  const Point = defineStruct({ x: 'float64', y: 'float64' });
+  const Player = defineStruct({
+    id: 'int32',
+    position: Point,
+    bounds: { min: { x: 'int16', y: 'int16' }, max: { x: 'int16', y: 'int16' } },
+    scores: 'float64[8]',
+    tags: 'string(4)[2]'
+  });
+
+  const player = {
+    id: 7,
+    position: { x: 1.5, y: -2.5 },
+    bounds: { min: { x: 0, y: 0 }, max: { x: 10, y: 20 } },
+    scores: [1, 2, 3, 4, 5, 6, 7, 8],
+    tags: ['ab', 'cd']
+  };
+
+  it('should infer nested and array types', () => {
+    type Decoded = ReturnType<typeof Player.decode>;
+    expectTypeOf<Decoded['position']>().toEqualTypeOf<{ x: number; y: number }>();
+    expectTypeOf<Decoded['bounds']['max']['y']>().toEqualTypeOf<number>();
+    expectTypeOf<Decoded['scores']>().toEqualTypeOf<number[]>();
+    expectTypeOf<Decoded['tags']>().toEqualTypeOf<string[]>();
+  });
+
+  it('should lay out nested fields inline', () => {
+    expect(Point.fixedLength).toBe(16);
+    expect(Player.fixedLength).toBe(4 + 16 + 8 + 64 + 8);
+  });
+
+  it('should read nested fields and array elements lazily', () => {
+    const map = new RogueMap({ valueCodec: Player });
+    map.set('p', player);
+
+    const p = map.get('p')!;
+    expect(p.position.x).toBe(1.5);
+    expect(p.bounds.max.y).toBe(20);
+    expect(p.scores[3]).toBe(4);
+    expect(p.scores.length).toBe(8);
+    expect(p.scores[8]).toBeUndefined();
+    expect(p.tags[1]).toBe('cd');
+    expect([...p.scores]).toEqual(player.scores);
+    expect(p.scores.map((s) => s * 2)[7]).toBe(16);
+    expect(JSON.parse(JSON.stringify(p))).toEqual(player);
+  });
+
+  it('should write through nested views', () => {
+    const map = new RogueMap({ valueCodec: Player });
+    map.set('p', player);
+
+    const p = map.get('p')!;
+    p.position.y = 42;
+    p.scores[0] = 100;
+    p.bounds.min = { x: -1, y: -2 };
+    p.tags = ['z'];
+
+    const again = map.get('p')!;
+    expect(again.position.y).toBe(42);
+    expect(again.scores[0]).toBe(100);
+    expect(again.bounds.min.y).toBe(-2);
+    expect([...again.tags]).toEqual(['z', '']); // Missing elements are zeroed
+    expect(() => {
+      (again.scores as any)[8] = 1;
+    }).toThrow(TypeError);
+  });
+
+  it('should store nested codecs as plain schemas', () => {
+    const schema = JSON.parse(Player.schema!);
+    expect(schema.position).toEqual({ x: 'float64', y: 'float64' });
+    expect(schema.scores).toBe('float64[8]');
+
+    const map = new RogueMap({ valueCodec: Player });
+    map.set('p', player);
+    const restored = RogueMap.deserialize<string, any>(map.serialize());
+    expect(restored.get('p').position.y).toBe(-2.5);
+  });
+
+  it('should reject non-struct codecs as fields', () => {
+    const NotStruct = { encode: () => 0, decode: () => 0, byteLength: () => 0 };
+    expect(() => defineStruct({ bad: NotStruct })).toThrow('only struct codecs');
+  });
+});
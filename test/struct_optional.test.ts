@@ -0,0 +1,83 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { RogueMap } from '../src/RogueMap';
+import { defineStruct, optional, nullable } from '../src/struct';
+
+describe('Optional and Nullable Struct Fields', () => {
+  const Profile = defineStruct({
+    id: 'int32',
+    age: optional('uint8'),
+    score: nullable('float64'),
+    nickname: optional(nullable('string(16)')),
+    bio: optional('string'),
+    home: optional({ x: 'int32', y: 'int32' })
+  });
+
+  it('should infer optional and nullable properties', () => {
+    type Decoded = ReturnType<typeof Profile.decode>;
+    expectTypeOf<Decoded>().toEqualTypeOf<{
+      id: number;
+      score: number | null;
+      age?: number;
+      nickname?: string | null;
+      bio?: string;
+      home?: { x: number; y: number };
+    }>();
+  });
+
+  it('should store a presence bitmap only when needed', () => {
+    expect(defineStruct({ a: 'int32' }).fixedLength).toBe(4);
+    expect(defineStruct({ a: optional('int32') }).fixedLength).toBe(5);
+    const many = Object.fromEntries(Array.from({ length: 9 }, (_, i) => [`f${i}`, nullable('uint8')]));
+    expect(defineStruct(many).fixedLength).toBe(2 + 9);
+  });
+
+  it('should tell missing and null values from zero', () => {
+    const map = new RogueMap({ valueCodec: Profile });
+    map.set('empty', { id: 1, score: null });
+    map.set('zero', { id: 2, age: 0, score: 0, nickname: '', bio: '', home: { x: 0, y: 0 } });
+    map.set('null', { id: 3, score: null, nickname: null });
+
+    const empty = map.get('empty')!;
+    expect(empty.age).toBeUndefined();
+    expect(empty.score).toBeNull();
+    expect(empty.nickname).toBeUndefined();
+    expect(empty.bio).toBeUndefined();
+    expect(empty.home).toBeUndefined();
+    expect(Object.keys(empty)).toEqual(['id', 'score']);
+    expect(JSON.parse(JSON.stringify(empty))).toEqual({ id: 1, score: null });
+
+    const zero = map.get('zero')!;
+    expect(zero.age).toBe(0);
+    expect(zero.score).toBe(0);
+    expect(zero.nickname).toBe('');
+    expect(zero.bio).toBe('');
+    expect(zero.home!.x).toBe(0);
+
+    expect(map.get('null')!.nickname).toBeNull();
+  });
+
+  it('should update presence in place', () => {
+    const map = new RogueMap({ valueCodec: Profile });
+    map.set('p', { id: 1, score: 5, age: 30 });
+
+    const p = map.get('p')!;
+    p.age = undefined;
+    p.score = null;
+    p.nickname = 'neo';
+    expect(map.get('p')!.age).toBeUndefined();
+    expect(map.get('p')!.score).toBeNull();
+    expect(map.get('p')!.nickname).toBe('neo');
+
+    p.score = 7;
+    expect(map.get('p')!.score).toBe(7);
+  });
+
+  it('should keep modifiers in the stored schema', () => {
+    const map = new RogueMap({ valueCodec: Profile });
+    map.set('p', { id: 1, score: null, age: 42 });
+    const restored = RogueMap.deserialize<string, any>(map.serialize());
+    expect(restored.get('p').age).toBe(42);
+    expect(restored.get('p').score).toBeNull();
+    expect(restored.get('p').bio).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { RogueMap } from '../src/RogueMap';
+import { defineStruct } from '../src/struct';
+
+describe('Extended Struct Field Types', () => {
+  const Entity = defineStruct({
+    big: 'int64',
+    ubig: 'uint64',
+    ratio: 'float32',
+    createdAt: 'date',
+    role: 'enum(admin, user, guest)',
+    id: 'uuid',
+    history: 'enum(a,b)[3]'
+  });
+
+  const entity = {
+    big: -(2n ** 62n),
+    ubig: 2n ** 64n - 1n,
+    ratio: 0.5,
+    createdAt: new Date('2024-01-02T03:04:05.678Z'),
+    role: 'user' as const,
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    history: ['b', 'a', 'b'] as ('a' | 'b')[]
+  };
+
+  it('should infer the new field types', () => {
+    type Decoded = ReturnType<typeof Entity.decode>;
+    expectTypeOf<Decoded['big']>().toEqualTypeOf<bigint>();
+    expectTypeOf<Decoded['ubig']>().toEqualTypeOf<bigint>();
+    expectTypeOf<Decoded['ratio']>().toEqualTypeOf<number>();
+    expectTypeOf<Decoded['createdAt']>().toEqualTypeOf<Date>();
+    expectTypeOf<Decoded['role']>().toEqualTypeOf<'admin' | 'user' | 'guest'>();
+    expectTypeOf<Decoded['id']>().toEqualTypeOf<string>();
+    expectTypeOf<Decoded['history']>().toEqualTypeOf<('a' | 'b')[]>();
+  });
+
+  it('should use compact sizes', () => {
+    expect(Entity.fixedLength).toBe(8 + 8 + 4 + 8 + 1 + 16 + 3);
+    const values = Array.from({ length: 300 }, (_, i) => `v${i}`).join(',');
+    expect(defineStruct({ e: `enum(${values})` }).fixedLength).toBe(2);
+  });
+
+  it('should round-trip every type', () => {
+    const map = new RogueMap({ valueCodec: Entity });
+    map.set('e', entity);
+
+    const e = map.get('e')!;
+    expect(e.big).toBe(entity.big);
+    expect(e.ubig).toBe(entity.ubig);
+    expect(e.ratio).toBe(0.5);
+    expect(e.createdAt).toEqual(entity.createdAt);
+    expect(e.role).toBe('user');
+    expect(e.id).toBe(entity.id);
+    expect([...e.history]).toEqual(['b', 'a', 'b']);
+
+    e.role = 'admin';
+    e.createdAt = new Date(0);
+    expect(map.get('e')!.role).toBe('admin');
+    expect(map.get('e')!.createdAt.getTime()).toBe(0);
+  });
+
+  it('should accept uuids without dashes and timestamps for dates', () => {
+    const map = new RogueMap({ valueCodec: Entity });
+    map.set('e', { ...entity, id: '123E4567E89B12D3A456426614174000', createdAt: 1000 as any });
+    expect(map.get('e')!.id).toBe(entity.id);
+    expect(map.get('e')!.createdAt.getTime()).toBe(1000);
+  });
+
+  it('should reject invalid enum values and uuids', () => {
+    const map = new RogueMap({ valueCodec: Entity });
+    expect(() => map.set('e', { ...entity, role: 'root' as any })).toThrow("Invalid enum value 'root'");
+    expect(() => map.set('e', { ...entity, id: 'not-a-uuid' })).toThrow('Invalid uuid');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { RogueMap } from '../src/RogueMap';
+import { defineStruct } from '../src/struct';
+
+describe('Variable-Length Struct Fields', () => {
+  const User = defineStruct({
+    id: 'int32',
+    name: 'string',
+    avatar: 'bytes',
+    score: 'float64',
+    profile: 'json'
+  });
+
+  const alice = {
+    id: 1,
+    name: 'Alice Liddell 🐇',
+    avatar: Buffer.from([1, 2, 3]),
+    score: 99.5,
+    profile: { city: 'Oxford', tags: ['a', 'b'] }
+  };
+
+  it('should infer variable field types', () => {
+    type Decoded = ReturnType<typeof User.decode>;
+    expectTypeOf<Decoded['name']>().toEqualTypeOf<string>();
+    expectTypeOf<Decoded['avatar']>().toEqualTypeOf<Buffer>();
+    expectTypeOf<Decoded['score']>().toEqualTypeOf<number>();
+  });
+
+  it('should size values by their content', () => {
+    expect(User.fixedLength).toBeUndefined();
+    const short = User.byteLength({ ...alice, name: 'A' });
+    const long = User.byteLength({ ...alice, name: 'A'.repeat(1000) });
+    expect(long - short).toBe(999);
+  });
+
+  it('should round-trip every field without truncation', () => {
+    const map = new RogueMap({ valueCodec: User });
+    map.set('alice', alice);
+    map.set('long', { ...alice, name: 'x'.repeat(5000) });
+
+    const a = map.get('alice')!;
+    expect(a.id).toBe(1);
+    expect(a.score).toBe(99.5);
+    expect(a.name).toBe('Alice Liddell 🐇');
+    expect(a.avatar).toEqual(Buffer.from([1, 2, 3]));
+    expect(a.profile).toEqual(alice.profile);
+    expect(map.get('long')!.name.length).toBe(5000);
+    expect(JSON.parse(JSON.stringify(a))).toMatchObject({ id: 1, name: alice.name, profile: alice.profile });
+  });
+
+  it('should store missing variable fields empty', () => {
+    const map = new RogueMap({ valueCodec: User });
+    map.set('u', { id: 2, score: 1 } as any);
+    const u = map.get('u')!;
+    expect(u.name).toBe('');
+    expect(u.avatar.length).toBe(0);
+    expect(u.profile).toBeUndefined();
+  });
+
+  it('should update fixed fields in place but not variable ones', () => {
+    const map = new RogueMap({ valueCodec: User });
+    map.set('alice', alice);
+
+    const a = map.get('alice')!;
+    a.score = 50;
+    expect(map.get('alice')!.score).toBe(50);
+    expect(map.get('alice')!.name).toBe(alice.name);
+    expect(() => {
+      a.name = 'Bob';
+    }).toThrow("Cannot update variable-length field 'name' in place");
+  });
+
+  it('should only allow variable fields at the top level', () => {
+    expect(() => defineStruct({ inner: { name: 'string' } })).toThrow('nested structs');
+    expect(() => defineStruct({ names: 'string[4]' as any })).toThrow('need a fixed length');
+  });
+});
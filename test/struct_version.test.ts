@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RogueMap } from '../src/RogueMap';
+import { defineStruct, optional } from '../src/struct';
+import { StringCodec } from '../src/codecs';
+import { readSnapshotHeader } from '../src/format';
+import { FileSystemAdapter } from '../src/persistence/fs';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const TEMP_FILE = path.join(__dirname, 'struct_version_map.db');
+
+function cleanup() {
+  for (const suffix of ['', '.wal', '.journal', '.tmp']) {
+    if (fs.existsSync(TEMP_FILE + suffix)) fs.unlinkSync(TEMP_FILE + suffix);
+  }
+}
+
+describe('Struct Versioning', () => {
+  const UserV1 = defineStruct({ id: 'int32', name: 'string(16)' });
+  const UserV2 = defineStruct({ id: 'int32', name: 'string(16)', age: optional('uint8') }, { version: 2 });
+
+  function saveV1(entries: Record<string, { id: number; name: string }>) {
+    const map = new RogueMap({ keyCodec: StringCodec, valueCodec: UserV1 });
+    for (const [key, value] of Object.entries(entries)) map.set(key, value);
+    return map.serialize();
+  }
+
+  beforeEach(cleanup);
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanup();
+  });
+
+  it('should store the version with the data', () => {
+    const map = new RogueMap({ valueCodec: UserV2 });
+    map.set('a', { id: 1, name: 'Ann' });
+    expect(readSnapshotHeader(map.serialize()).meta!.value.version).toBe(2);
+
+    const restored = RogueMap.deserialize<string, any>(map.serialize());
+    expect(restored.get('a').name).toBe('Ann');
+    expect(readSnapshotHeader(restored.serialize()).meta!.value.version).toBe(2);
+  });
+
+  it('should migrate older layouts by field name on load', () => {
+    const data = saveV1({ a: { id: 1, name: 'Ann' }, b: { id: 2, name: 'Bob' } });
+    const map = RogueMap.deserialize(data, { keyCodec: StringCodec, valueCodec: UserV2 });
+
+    expect(map.size).toBe(2);
+    expect(map.get('b')!.name).toBe('Bob');
+    expect(map.get('b')!.age).toBeUndefined();
+    map.get('b')!.age = 30;
+    expect(map.get('b')!.age).toBe(30);
+    expect(readSnapshotHeader(map.serialize()).meta!.value.version).toBe(2);
+  });
+
+  it('should call migrate with the saved version', () => {
+    const UserV3 = defineStruct(
+      { id: 'int32', first: 'string(8)', last: 'string(8)' },
+      {
+        version: 3,
+        migrate: (old, fromVersion) => {
+          const [first, last] = old.name.split(' ');
+          return { id: old.id + fromVersion * 100, first, last };
+        }
+      }
+    );
+    const data = saveV1({ a: { id: 1, name: 'Ada Lovelace' } });
+    const map = RogueMap.deserialize(data, { keyCodec: StringCodec, valueCodec: UserV3 });
+
+    const a = map.get('a')!;
+    expect(a.id).toBe(1); // Unversioned data is version 0
+    expect(a.first).toBe('Ada');
+    expect(a.last).toBe('Lovelace');
+  });
+
+  it('should reject newer versions and schema changes without a version bump', () => {
+    const map = new RogueMap({ keyCodec: StringCodec, valueCodec: UserV2 });
+    map.set('a', { id: 1, name: 'Ann' });
+    const data = map.serialize();
+
+    const Older = defineStruct({ id: 'int32' }, { version: 1 });
+    expect(() => RogueMap.deserialize(data, { keyCodec: StringCodec, valueCodec: Older })).toThrow(
+      /newer than the configured version 1/
+    );
+
+    const SameVersion = defineStruct({ id: 'int32' }, { version: 2 });
+    expect(() => RogueMap.deserialize(data, { keyCodec: StringCodec, valueCodec: SameVersion })).toThrow(
+      /schema does not match/
+    );
+  });
+
+  it('should migrate the persisted file and WAL', async () => {
+    const persistence = { path: TEMP_FILE, type: 'fs' as const, wal: true };
+    const v1 = new RogueMap({ keyCodec: StringCodec, valueCodec: UserV1, persistence });
+    v1.set('saved', { id: 1, name: 'Saved' });
+    await v1.save();
+    v1.set('logged', { id: 2, name: 'Logged' }); // Only in the WAL
+    await v1.close();
+
+    const v2 = new RogueMap({ keyCodec: StringCodec, valueCodec: UserV2, persistence });
+    expect(v2.get('saved')!.name).toBe('Saved');
+    expect(v2.get('logged')!.name).toBe('Logged');
+    v2.set('new', { id: 3, name: 'New', age: 5 });
+    await v2.close();
+
+    const again = new RogueMap({ keyCodec: StringCodec, valueCodec: UserV2, persistence });
+    expect(again.size).toBe(3);
+    expect(again.get('logged')!.id).toBe(2);
+    expect(again.get('new')!.age).toBe(5);
+    await again.close();
+  });
+
+  it('should report a failed migration save', async () => {
+    const persistence = { path: TEMP_FILE, type: 'fs' as const };
+    const v1 = new RogueMap({ keyCodec: StringCodec, valueCodec: UserV1, persistence });
+    v1.set('a', { id: 1, name: 'Ann' });
+    await v1.save();
+    await v1.close();
+
+    vi.spyOn(FileSystemAdapter.prototype, 'saveChunks').mockRejectedValue(new Error('disk full'));
+    const v2 = new RogueMap({ keyCodec: StringCodec, valueCodec: UserV2, persistence });
+    const error = await new Promise<Error>((resolve) => v2.once('error', resolve));
+    expect(error.message).toBe('disk full');
+    expect(v2.get('a')!.name).toBe('Ann'); // Migrated in memory all the same
+
+    await expect(v2.init()).rejects.toThrow('disk full');
+    await v2.close();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { StringCodec, Int32Codec } from "../src/codecs";
+
+describe("RogueMap TTL sweeper", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should remove expired entries without access", async () => {
+    const map = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      sweep: { interval: 100 },
+    });
+    const onExpire = vi.fn();
+    map.on("expire", onExpire);
+
+    map.set("short", 1, { ttl: 50 });
+    map.set("long", 2, { ttl: 5000 });
+    map.set("forever", 3);
+
+    vi.advanceTimersByTime(100);
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(onExpire).toHaveBeenCalledWith("short");
+    expect(map.size).toBe(2);
+
+    vi.advanceTimersByTime(5000);
+    expect(onExpire).toHaveBeenCalledWith("long");
+    expect(map.size).toBe(1);
+    expect(map.get("forever")).toBe(3);
+    await map.close();
+  });
+
+  it("should compact once enough entries have expired", async () => {
+    const map = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      sweep: { interval: 100 },
+    });
+    for (let i = 0; i < 5000; i++) map.set(`key${i}`, i, { ttl: 50 });
+    map.set("kept", 1);
+    const used = (map as any).writeOffset;
+
+    vi.advanceTimersByTime(100);
+    expect(map.size).toBe(1);
+    expect((map as any).writeOffset).toBeLessThan(used / 100);
+    expect(map.get("kept")).toBe(1);
+    await map.close();
+  });
+
+  it("should resume where the previous sweep stopped", async () => {
+    const map = new RogueMap<string, number>({
+      capacity: 1024,
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      compaction: { autoCompact: false },
+      sweep: { interval: 100, budget: 1 },
+    });
+    for (let i = 0; i < 500; i++) map.set(`key${i}`, i, { ttl: 50 });
+
+    // Every clock check reports the budget as spent
+    let now = Date.now() + 100;
+    vi.spyOn(Date, "now").mockImplementation(() => (now += 1));
+    (map as any).sweep();
+    const afterFirst = map.size;
+    expect(afterFirst).toBeGreaterThan(0);
+    expect(afterFirst).toBeLessThan(500);
+
+    (map as any).sweep();
+    expect(map.size).toBeLessThan(afterFirst);
+    vi.restoreAllMocks();
+    await map.close();
+  });
+
+  it("should stop sweeping on close", async () => {
+    const map = new RogueMap<string, number>({ sweep: { interval: 100 } });
+    const onExpire = vi.fn();
+    map.on("expire", onExpire);
+    map.set("a", 1, { ttl: 50 });
+
+    await map.close();
+    vi.advanceTimersByTime(1000);
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
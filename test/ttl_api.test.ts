@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { FileSystemAdapter } from "../src/persistence/fs";
+import { StringCodec, Int32Codec } from "../src/codecs";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "ttl_api_map.db");
+const HOUR = 3600 * 1000;
+
+function cleanup() {
+  for (const suffix of ["", ".wal", ".journal", ".tmp"]) {
+    if (fs.existsSync(TEMP_FILE + suffix)) fs.unlinkSync(TEMP_FILE + suffix);
+  }
+}
+
+function open(persistence: { wal?: boolean; incremental?: boolean }) {
+  return new RogueMap<string, number>({
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+    persistence: { path: TEMP_FILE, type: "fs", ...persistence },
+  });
+}
+
+describe("RogueMap TTL API", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should report TTL and expiry like Redis", () => {
+    const map = new RogueMap<string, string>();
+    map.set("session", "data", { ttl: 1000 });
+    map.set("config", "data");
+
+    expect(map.getTTL("session")).toBe(1000);
+    expect(map.getExpireAt("session")).toBe(Date.now() + 1000);
+    expect(map.getTTL("config")).toBe(-1);
+    expect(map.getExpireAt("config")).toBe(-1);
+    expect(map.getTTL("missing")).toBe(-2);
+
+    vi.advanceTimersByTime(400);
+    expect(map.getTTL("session")).toBe(600);
+    vi.advanceTimersByTime(601);
+    expect(map.getTTL("session")).toBe(-2);
+  });
+
+  it("should change the expiry without rewriting the value", () => {
+    const map = new RogueMap<string, string>();
+    map.set("a", "value");
+    const used = (map as any).writeOffset;
+
+    expect(map.expire("a", 1000)).toBe(true);
+    expect(map.getTTL("a")).toBe(1000);
+    expect(map.expireAt("a", Date.now() + 5000)).toBe(true);
+    expect(map.getTTL("a")).toBe(5000);
+    expect(map.persist("a")).toBe(true);
+    expect(map.persist("a")).toBe(false);
+    expect(map.getTTL("a")).toBe(-1);
+    expect((map as any).writeOffset).toBe(used);
+
+    expect(map.expire("missing", 1000)).toBe(false);
+    expect(map.persist("missing")).toBe(false);
+  });
+
+  it("should delete keys given a past expiry", () => {
+    const map = new RogueMap<string, string>();
+    const onDelete = vi.fn();
+    map.on("delete", onDelete);
+    map.set("a", "1");
+    map.set("b", "2");
+
+    expect(map.expire("a", 0)).toBe(true);
+    expect(map.expireAt("b", Date.now() - 1)).toBe(true);
+    expect(map.size).toBe(0);
+    expect(onDelete).toHaveBeenCalledTimes(2);
+  });
+
+  it("should restart the expiry on touch", () => {
+    const map = new RogueMap<string, string>({ ttl: 1000 });
+    map.set("session", "data");
+    map.set("custom", "data", { ttl: 2000 });
+    map.set("forever", "data", { ttl: 0 });
+
+    vi.advanceTimersByTime(900);
+    expect(map.touch("session")).toBe(true);
+    expect(map.getTTL("session")).toBe(1000);
+    expect(map.touch("custom", 5000)).toBe(true);
+    expect(map.getTTL("custom")).toBe(5000);
+    expect(map.touch("forever")).toBe(true);
+    expect(map.getTTL("forever")).toBe(-1);
+    expect(map.touch("missing")).toBe(false);
+
+    vi.advanceTimersByTime(500);
+    expect(map.get("session")).toBe("data");
+  });
+
+  it("should count touch as an access for eviction", () => {
+    const map = new RogueMap<string, number>({ maxEntries: 2 });
+    map.set("a", 1);
+    map.set("b", 2);
+    map.touch("a");
+    map.set("c", 3);
+    expect(map.has("a")).toBe(true);
+    expect(map.has("b")).toBe(false);
+  });
+});
+
+describe("RogueMap TTL API persistence", () => {
+  beforeEach(cleanup);
+  afterEach(() => {
+    vi.restoreAllMocks();
+    cleanup();
+  });
+
+  it("should log expiry changes to the WAL", () => {
+    const map = open({ wal: true });
+    map.set("a", 1, { ttl: HOUR });
+    map.set("b", 2);
+    map.persist("a");
+    map.expire("b", HOUR);
+
+    const restored = open({ wal: true });
+    expect(restored.getTTL("a")).toBe(-1);
+    expect(restored.getTTL("b")).toBeGreaterThan(HOUR - 60000);
+  });
+
+  it("should patch changed entry headers into the file", async () => {
+    const patch = vi.spyOn(FileSystemAdapter.prototype, "patch");
+    const map = open({ incremental: true });
+    for (let i = 0; i < 1000; i++) map.set(`key${i}`, i);
+    await map.save();
+
+    map.expire("key500", HOUR);
+    await map.save();
+    expect(patch).toHaveBeenCalledTimes(1);
+
+    const restored = open({ incremental: true });
+    expect(restored.getTTL("key500")).toBeGreaterThan(HOUR - 60000);
+    expect(restored.getTTL("key501")).toBe(-1);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { RogueMap } from "../src/RogueMap";
+import { Int32Codec, StringCodec } from "../src/codecs";
+import { RogueMapSyncUnsupportedError } from "../src/errors";
+import { PersistenceManager } from "../src/persistence/manager";
+import { CompressedAdapter } from "../src/persistence/compression";
+import { LocalStorageAdapter } from "../src/persistence/browser";
+import { PersistenceAdapter } from "../src/persistence/interfaces";
+import * as fs from "fs";
+import * as path from "path";
+
+const TEMP_FILE = path.join(__dirname, "wal_map.db");
+const WAL_FILE = TEMP_FILE + ".wal";
+
+function cleanup() {
+  for (const file of [TEMP_FILE, WAL_FILE]) {
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+  }
+}
+
+function open() {
+  return new RogueMap<string, number>({
+    keyCodec: StringCodec,
+    valueCodec: Int32Codec,
+    persistence: { path: TEMP_FILE, type: "fs", wal: true },
+  });
+}
+
+describe("RogueMap Write-Ahead Log", () => {
+  beforeEach(cleanup);
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    cleanup();
+  });
+
+  it("should recover writes that happened after the last snapshot", () => {
+    const map = open();
+    map.set("a", 1);
+    map.set("b", 2);
+    map.set("a", 3);
+    map.delete("b");
+    map.set("c", 4);
+
+    // No snapshot was taken, only the log exists
+    expect(fs.existsSync(TEMP_FILE)).toBe(false);
+    expect(fs.existsSync(WAL_FILE)).toBe(true);
+
+    const restored = open();
+    expect(restored.size).toBe(2);
+    expect(restored.get("a")).toBe(3);
+    expect(restored.has("b")).toBe(false);
+    expect(restored.get("c")).toBe(4);
+  });
+
+  it("should replay the log on top of the last snapshot", async () => {
+    const map = open();
+    map.set("a", 1);
+    map.set("b", 2);
+    await map.save();
+
+    // Snapshot taken, log truncated
+    expect(fs.existsSync(WAL_FILE)).toBe(false);
+
+    map.clear();
+    map.set("x", 10);
+
+    const restored = open();
+    expect(restored.size).toBe(1);
+    expect(restored.get("x")).toBe(10);
+    expect(restored.has("a")).toBe(false);
+  });
+
+  it("should ignore a torn record at the end of the log", () => {
+    const map = open();
+    map.set("a", 1);
+    map.set("b", 2);
+
+    // Simulate a crash in the middle of the last append
+    const log = fs.readFileSync(WAL_FILE);
+    fs.writeFileSync(WAL_FILE, log.subarray(0, log.length - 3));
+
+    const restored = open();
+    expect(restored.get("a")).toBe(1);
+    expect(restored.has("b")).toBe(false);
+  });
+
+  it("should keep records written while a snapshot is in flight", async () => {
+    const map = open();
+    map.set("a", 1);
+
+    const saving = map.save();
+    map.set("b", 2);
+    await saving;
+
+    const restored = open();
+    expect(restored.get("a")).toBe(1);
+    expect(restored.get("b")).toBe(2);
+    await map.close();
+  });
+
+  it("should load the log asynchronously via init()", async () => {
+    const map = open();
+    map.set("a", 1);
+    map.set("b", 2);
+
+    const restored = new RogueMap<string, number>({
+      keyCodec: StringCodec,
+      valueCodec: Int32Codec,
+      persistence: { path: TEMP_FILE, type: "fs", wal: true, syncLoad: false },
+    });
+    expect(restored.size).toBe(0);
+
+    await restored.init();
+    expect(restored.size).toBe(2);
+    expect(restored.get("b")).toBe(2);
+  });
+
+  it("should throw when an append fails", () => {
+    const map = open();
+    const adapter = (map as any).adapter;
+    const appendSync = adapter.appendSync;
+    adapter.appendSync = () => {
+      throw Object.assign(new Error("no space left on device"), {
+        code: "ENOSPC",
+      });
+    };
+    expect(() => map.set("a", 1)).toThrow("no space left on device");
+
+    // Still writing synchronously once the disk recovers
+    adapter.appendSync = appendSync;
+    map.set("b", 2);
+    expect(open().get("b")).toBe(2);
+  });
+
+  it("should only fall back to async appends when sync is unsupported", async () => {
+    const map = open();
+    const adapter = (map as any).adapter;
+    adapter.appendSync = () => {
+      throw new RogueMapSyncUnsupportedError("No sync support");
+    };
+    map.set("a", 1);
+    await map.close();
+    expect(open().get("a")).toBe(1);
+
+    const errors: Error[] = [];
+    map.on("error", (e) => errors.push(e));
+    adapter.append = () => Promise.reject(new Error("quota exceeded"));
+    map.set("b", 2);
+    await map.close();
+    expect(errors.map((e) => e.message)).toEqual(["quota exceeded"]);
+  });
+
+  it("should require an adapter that can append", () => {
+    const snapshotsOnly: PersistenceAdapter = {
+      save: async () => {},
+      saveSync: () => {},
+      load: async () => null,
+      loadSync: () => null,
+    };
+    const wrapped = new CompressedAdapter(snapshotsOnly, "gzip");
+    expect(wrapped.append).toBeUndefined();
+
+    vi.spyOn(PersistenceManager, "fromOptions").mockReturnValue(wrapped);
+    expect(() => open()).toThrow(/wal requires an adapter with append\(\)/);
+    const map = new RogueMap({ persistence: { path: TEMP_FILE } });
+    map.set("a", 1); // Fine without the WAL
+  });
+
+  it("should append to localStorage without rewriting the log", () => {
+    const items = new Map<string, string>();
+    const setItem = vi.fn((key: string, value: string) => {
+      items.set(key, value);
+    });
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem,
+      removeItem: (key: string) => items.delete(key),
+    });
+    const persistence = {
+      path: "map",
+      type: "localstorage" as const,
+      wal: true,
+    };
+
+    const map = new RogueMap<string, number>({ persistence });
+    for (let i = 0; i < 100; i++) map.set(`key${i}`, i);
+    const longest = Math.max(...setItem.mock.calls.map(([, v]) => v.length));
+    expect(longest).toBeLessThan(100); // One record per item
+
+    expect(new RogueMap({ persistence }).get("key99")).toBe(99);
+    new LocalStorageAdapter().removeSync("map.wal");
+    expect(Array.from(items.keys())).toEqual([]);
+  });
+});